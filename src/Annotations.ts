@@ -20,6 +20,20 @@ export const StatusTextKey = "funcho/statusText";
  */
 export const ContentTypeKey = "funcho/contentType";
 
+/**
+ * Type-level marker carrying the status code of an annotated schema.
+ * It only exists in types, so routes with several success schemas can be
+ * told apart by status.
+ */
+export interface Status<Code extends number> {
+  readonly "~funcho/status": Code;
+}
+
+/**
+ * Extract the status code of an annotated schema type (200 if unannotated).
+ */
+export type StatusOf<S> = S extends Status<infer Code> ? Code : 200;
+
 /**
  * Annotate a schema with an HTTP status code.
  *
@@ -32,8 +46,8 @@ export const ContentTypeKey = "funcho/contentType";
  */
 export const status =
   <Code extends number>(code: Code) =>
-  <S extends Schema.Top>(schema: S): S =>
-    schema.annotate({ [StatusKey]: code }) as S;
+  <S extends Schema.Top>(schema: S): S & Status<Code> =>
+    schema.annotate({ [StatusKey]: code }) as S & Status<Code>;
 
 /**
  * Annotate a schema with a response headers schema.
@@ -0,0 +1,350 @@
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Cookies from "./Cookies.js";
+import * as Gate from "./Gate.js";
+import * as Headers from "./Headers.js";
+import type { SecurityScheme } from "./OpenApi.js";
+import * as Route from "./Route.js";
+
+/**
+ * Error for requests with missing or invalid credentials.
+ *
+ * Authentication gates set the `WWW-Authenticate` header of the response
+ * to the challenge of their scheme when they fail with it.
+ */
+export class UnauthorizedError extends Route.Error(
+  "UnauthorizedError",
+  401,
+)({
+  message: Schema.String,
+}) {}
+
+/**
+ * Options shared by all authentication gates.
+ */
+export interface AuthOptions {
+  /** Realm sent in the `WWW-Authenticate` challenge */
+  readonly realm?: string;
+  /** Name of the security scheme in API descriptions */
+  readonly securityScheme?: string;
+  /** Description of the security scheme in API descriptions */
+  readonly description?: string;
+}
+
+/**
+ * Options for `Auth.bearer`.
+ */
+export interface BearerOptions extends AuthOptions {
+  /** Format of the token in API descriptions (e.g., "JWT") */
+  readonly bearerFormat?: string;
+}
+
+/**
+ * Options for `Auth.apiKey`.
+ */
+export interface ApiKeyOptions<In extends ApiKeyLocation, Name extends string>
+  extends AuthOptions {
+  /** Where the key is sent */
+  readonly in: In;
+  /** Name of the header, query parameter or cookie holding the key */
+  readonly name: Name;
+}
+
+/**
+ * Where an API key can be sent.
+ */
+export type ApiKeyLocation = "header" | "query" | "cookie";
+
+/**
+ * Credentials sent with HTTP Basic authentication.
+ */
+export interface BasicCredentials {
+  readonly username: string;
+  readonly password: string;
+}
+
+/**
+ * Verify credentials and return the context of the authenticated request,
+ * or fail with an `UnauthorizedError`.
+ */
+export type Verify<Credentials, A, R> = (
+  credentials: Credentials,
+) => Effect.Effect<A, UnauthorizedError, R>;
+
+/**
+ * The query schema of an API key sent as a query parameter.
+ */
+export type ApiKeyQuery<Name extends string> = Schema.Struct<{
+  readonly [K in Name]: Schema.optionalKey<Schema.String>;
+}>;
+
+/**
+ * The headers schema of an API key sent as a header. Header names are
+ * case-insensitive, so the key is declared under its lowercase name.
+ */
+export type ApiKeyHeaders<Name extends string> = Schema.Struct<{
+  readonly [K in Lowercase<Name>]: Schema.optionalKey<Schema.String>;
+}>;
+
+/**
+ * An authentication gate, providing the result of its `verify` function.
+ */
+export type AuthGate<
+  A,
+  R,
+  TQuery extends Gate.InputSchema = never,
+  THeaders extends Gate.InputSchema = never,
+> = Gate.Gate<
+  readonly [typeof UnauthorizedError],
+  [A] extends [never] ? void : A,
+  R | Headers.Headers | Cookies.Cookies,
+  never,
+  never,
+  TQuery,
+  THeaders
+>;
+
+/**
+ * An API key gate, with the query or headers schema of its key.
+ */
+type ApiKeyGate<
+  In extends ApiKeyLocation,
+  Name extends string,
+  A,
+  R,
+> = AuthGate<
+  A,
+  R,
+  In extends "query" ? ApiKeyQuery<Name> : never,
+  In extends "header" ? ApiKeyHeaders<Name> : never
+>;
+
+/**
+ * Quote a challenge parameter value, escaping `"` and `\` as a quoted
+ * string (RFC 9110, section 5.6.4).
+ */
+const quote = (value: string): string => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * Build a `WWW-Authenticate` challenge.
+ */
+const challenge = (
+  scheme: string,
+  params: Record<string, string | undefined>,
+): string => {
+  const entries = Object.entries(params).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined,
+  );
+  return entries.length > 0
+    ? `${scheme} ${entries.map(([key, value]) => `${key}=${quote(value)}`).join(", ")}`
+    : scheme;
+};
+
+/**
+ * Fail with an `UnauthorizedError`, challenging the client to authenticate.
+ */
+const unauthorized = (challengeValue: string, message: string) =>
+  Effect.andThen(
+    Headers.set("www-authenticate", challengeValue),
+    Effect.fail(new UnauthorizedError({ message })),
+  );
+
+/**
+ * Run `verify`, challenging the client again if it rejects the credentials.
+ */
+const verifyWith = <Credentials, A, R>(
+  verify: Verify<Credentials, A, R>,
+  credentials: Credentials,
+  challengeValue: string,
+) =>
+  Effect.tapError(verify(credentials), () =>
+    Headers.set("www-authenticate", challengeValue),
+  );
+
+/**
+ * Read the credentials of an `Authorization` header with the given scheme.
+ */
+const authorization = Effect.fnUntraced(function* (scheme: string) {
+  const header = yield* Headers.get("authorization");
+  const match = header?.match(/^(\S+)\s+(.+)$/);
+  return match && match[1]!.toLowerCase() === scheme.toLowerCase()
+    ? match[2]!.trim()
+    : undefined;
+});
+
+/**
+ * Decode the `username:password` pair of a Basic `Authorization` header.
+ */
+const decodeBasic = (encoded: string): BasicCredentials | undefined => {
+  let decoded: string;
+  try {
+    decoded = new TextDecoder().decode(
+      Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0)),
+    );
+  } catch {
+    return undefined;
+  }
+  const separator = decoded.indexOf(":");
+  return separator === -1
+    ? undefined
+    : {
+        username: decoded.slice(0, separator),
+        password: decoded.slice(separator + 1),
+      };
+};
+
+/**
+ * Create a gate authenticating requests with a bearer token in the
+ * `Authorization` header.
+ *
+ * @example
+ * ```ts
+ * const AuthGate = Auth.bearer(
+ *   { bearerFormat: "JWT" },
+ *   (token) => Tokens.verify(token).pipe(
+ *     Effect.mapError(() => new Auth.UnauthorizedError({ message: "Invalid token" })),
+ *   ),
+ * );
+ *
+ * const getProfile = AuthGate.add(
+ *   Route.get("/profile", { success: User }, () => Effect.service(AuthGate.Context)),
+ * );
+ * ```
+ */
+export const bearer = <A, R = never>(
+  options: BearerOptions,
+  verify: Verify<string, A, R>,
+): AuthGate<A, R> => {
+  const scheme: SecurityScheme = {
+    type: "http",
+    scheme: "bearer",
+    ...(options.bearerFormat ? { bearerFormat: options.bearerFormat } : {}),
+    ...(options.description ? { description: options.description } : {}),
+  };
+  return Gate.make(
+    {
+      errors: [UnauthorizedError],
+      security: { [options.securityScheme ?? "bearerAuth"]: scheme },
+    },
+    Effect.fnUntraced(function* () {
+      const token = yield* authorization("Bearer");
+      if (!token) {
+        return yield* unauthorized(
+          challenge("Bearer", { realm: options.realm }),
+          "Missing bearer token",
+        );
+      }
+      return yield* verifyWith(
+        verify,
+        token,
+        challenge("Bearer", { realm: options.realm, error: "invalid_token" }),
+      );
+    }),
+  ) as AuthGate<A, R>;
+};
+
+/**
+ * Create a gate authenticating requests with HTTP Basic credentials.
+ *
+ * @example
+ * ```ts
+ * const AdminGate = Auth.basic({ realm: "admin" }, ({ username, password }) =>
+ *   username === "admin" && password === Config.adminPassword
+ *     ? Effect.succeed({ username })
+ *     : Effect.fail(new Auth.UnauthorizedError({ message: "Invalid credentials" })),
+ * );
+ * ```
+ */
+export const basic = <A, R = never>(
+  options: AuthOptions,
+  verify: Verify<BasicCredentials, A, R>,
+): AuthGate<A, R> => {
+  const scheme: SecurityScheme = {
+    type: "http",
+    scheme: "basic",
+    ...(options.description ? { description: options.description } : {}),
+  };
+  // Basic challenges must have a realm
+  const challengeValue = challenge("Basic", {
+    realm: options.realm ?? "api",
+    charset: "UTF-8",
+  });
+  return Gate.make(
+    {
+      errors: [UnauthorizedError],
+      security: { [options.securityScheme ?? "basicAuth"]: scheme },
+    },
+    Effect.fnUntraced(function* () {
+      const encoded = yield* authorization("Basic");
+      const credentials = encoded ? decodeBasic(encoded) : undefined;
+      if (!credentials) {
+        return yield* unauthorized(challengeValue, "Missing credentials");
+      }
+      return yield* verifyWith(verify, credentials, challengeValue);
+    }),
+  ) as AuthGate<A, R>;
+};
+
+/**
+ * Create a gate authenticating requests with an API key sent in a header,
+ * a query parameter or a cookie.
+ *
+ * Keys sent as query parameters or headers are part of the routes' query
+ * or headers schema, so clients can pass them with the other inputs.
+ *
+ * @example
+ * ```ts
+ * const ApiKeyGate = Auth.apiKey({ in: "header", name: "x-api-key" }, (key) =>
+ *   ApiKeys.find(key).pipe(
+ *     Effect.mapError(() => new Auth.UnauthorizedError({ message: "Unknown key" })),
+ *   ),
+ * );
+ * ```
+ */
+export const apiKey = <
+  const In extends ApiKeyLocation,
+  const Name extends string,
+  A,
+  R = never,
+>(
+  options: ApiKeyOptions<In, Name>,
+  verify: Verify<string, A, R>,
+): ApiKeyGate<In, Name, A, R> => {
+  const scheme: SecurityScheme = {
+    type: "apiKey",
+    name: options.name,
+    in: options.in,
+    ...(options.description ? { description: options.description } : {}),
+  };
+  const key = Schema.Struct({
+    [options.in === "header" ? options.name.toLowerCase() : options.name]:
+      Schema.optionalKey(Schema.String),
+  });
+  const challengeValue = challenge("ApiKey", {
+    realm: options.realm,
+    in: options.in,
+    name: options.name,
+  });
+  return Gate.make(
+    {
+      errors: [UnauthorizedError],
+      security: { [options.securityScheme ?? "apiKeyAuth"]: scheme },
+      ...(options.in === "query" ? { query: key } : {}),
+      ...(options.in === "header" ? { headers: key } : {}),
+    },
+    Effect.fnUntraced(function* ({ query, headers }) {
+      const value =
+        options.in === "query"
+          ? (query as Record<string, string | undefined>)[options.name]
+          : options.in === "cookie"
+            ? yield* Cookies.get(options.name)
+            : (headers as Record<string, string | undefined>)[
+                options.name.toLowerCase()
+              ];
+      if (!value) {
+        return yield* unauthorized(challengeValue, "Missing API key");
+      }
+      return yield* verifyWith(verify, value, challengeValue);
+    }),
+  ) as unknown as ApiKeyGate<In, Name, A, R>;
+};
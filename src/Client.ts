@@ -1,8 +1,28 @@
 import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
 import * as Schema from "effect/Schema";
 import * as Stream from "effect/Stream";
-import type { AnyRouteError, InstanceOf } from "./Error.js";
-import type { HttpMethod, PathInput, RouteConfig } from "./Route.js";
+import type { StatusOf } from "./Annotations.js";
+import type { AnyRouteError, InstanceOf, TimeoutError } from "./Error.js";
+import {
+  getStatusFromSchema,
+  getTimeoutErrorSchema,
+  isTransformedSchema,
+} from "./Error.js";
+import * as TraceContext from "./internal/traceContext.js";
+import type {
+  HttpMethod,
+  PathInput,
+  RouteConfig,
+  SuccessSchema,
+  Timed,
+} from "./Route.js";
+import {
+  getSuccessSchemas,
+  getSuccessStatus,
+  getTimeoutOptions,
+  hasInputs,
+} from "./Route.js";
 import type { AnyRouter, Routable } from "./Router.js";
 
 /**
@@ -62,19 +82,59 @@ type SimplifyOptions<T> = {
  */
 type FinalOptions<T> = keyof T extends never ? undefined : T;
 
+/**
+ * Response body for a success schema.
+ */
+type ClientBody<S extends Schema.Top> = S extends typeof Schema.Void
+  ? undefined
+  : Schema.Schema.Type<S>;
+
+/**
+ * Responses for several success schemas, tagged by status.
+ */
+type ClientStatusUnion<S> = S extends Schema.Top
+  ? { readonly status: StatusOf<S>; readonly body: ClientBody<S> }
+  : never;
+
 /**
  * Client response for a route.
+ * Routes with several success schemas return `{ status, body }`.
  */
-type ClientResponse<TSuccess extends Schema.Top> =
-  TSuccess extends typeof Schema.Void
-    ? undefined
-    : Schema.Schema.Type<TSuccess>;
+type ClientResponse<TSuccess extends SuccessSchema> =
+  TSuccess extends ReadonlyArray<infer S>
+    ? ClientStatusUnion<S>
+    : TSuccess extends Schema.Top
+      ? ClientBody<TSuccess>
+      : never;
+
+/**
+ * Error instance decoded by an error schema: the class itself, or the
+ * class a transformed (`Schema.encodeTo`) schema decodes to.
+ */
+type ErrorInstance<E> = E extends { readonly to: infer To }
+  ? InstanceOf<To>
+  : InstanceOf<E>;
 
 /**
  * Union of error instances from error classes.
  */
 type ErrorsUnion<TErrors extends ReadonlyArray<AnyRouteError>> =
-  TErrors extends readonly [] ? never : InstanceOf<TErrors[number]>;
+  TErrors extends readonly [] ? never : ErrorInstance<TErrors[number]>;
+
+/**
+ * `TimeoutError` for routes with a timeout, never for the others.
+ */
+type TimeoutErrorOf<R> = R extends Timed<unknown> ? TimeoutError : never;
+
+/**
+ * The error decoded by the router's validation error schema for routes
+ * with inputs, never for the others, which cannot fail validation.
+ */
+type ValidationErrorOf<TInputs, TValidationError extends Schema.Top> = [
+  TInputs,
+] extends [never]
+  ? never
+  : Schema.Schema.Type<TValidationError>;
 
 /**
  * Client method for a single route.
@@ -85,8 +145,9 @@ type ClientMethod<
   TQuery extends Schema.Top,
   THeaders extends Schema.Top,
   TBody extends Schema.Top,
-  TSuccess extends Schema.Top,
+  TSuccess extends SuccessSchema,
   TErrors extends ReadonlyArray<AnyRouteError>,
+  TRouterErrors,
 > = FinalOptions<
   SimplifyOptions<
     ClientRequestOptions<TPattern, TPath, TQuery, THeaders, TBody>
@@ -94,7 +155,7 @@ type ClientMethod<
 > extends void
   ? () => Effect.Effect<
       ClientResponse<TSuccess>,
-      ErrorsUnion<TErrors> | ClientError
+      ErrorsUnion<TErrors> | TRouterErrors | ClientError
     >
   : (
       options: SimplifyOptions<
@@ -102,7 +163,7 @@ type ClientMethod<
       >,
     ) => Effect.Effect<
       ClientResponse<TSuccess>,
-      ErrorsUnion<TErrors> | ClientError
+      ErrorsUnion<TErrors> | TRouterErrors | ClientError
     >;
 
 /**
@@ -125,6 +186,8 @@ type MethodName<M extends HttpMethod> = M extends "GET"
 /**
  * Parse path segments and build nested structure.
  * E.g., "/users/:id" → { users: { get: ... } }
+ *
+ * `TPattern` keeps the full pattern, whose params the methods take.
  */
 type ParsePath<
   P extends PathInput,
@@ -133,8 +196,10 @@ type ParsePath<
   TQuery extends Schema.Top,
   THeaders extends Schema.Top,
   TBody extends Schema.Top,
-  TSuccess extends Schema.Top,
+  TSuccess extends SuccessSchema,
   TErrors extends ReadonlyArray<AnyRouteError>,
+  TRouterErrors,
+  TPattern extends PathInput = P,
 > = P extends `/${infer First}/${infer Rest}`
   ? First extends `:${string}`
     ? ParsePath<
@@ -145,7 +210,9 @@ type ParsePath<
         THeaders,
         TBody,
         TSuccess,
-        TErrors
+        TErrors,
+        TRouterErrors,
+        TPattern
       >
     : {
         [K in First]: ParsePath<
@@ -156,51 +223,57 @@ type ParsePath<
           THeaders,
           TBody,
           TSuccess,
-          TErrors
+          TErrors,
+          TRouterErrors,
+          TPattern
         >;
       }
   : P extends `/${infer Last}`
     ? Last extends `:${string}`
       ? {
           [K in MethodName<Method>]: ClientMethod<
-            P,
+            TPattern,
             TPath,
             TQuery,
             THeaders,
             TBody,
             TSuccess,
-            TErrors
+            TErrors,
+            TRouterErrors
           >;
         }
       : {
           [K in Last]: {
             [M in MethodName<Method>]: ClientMethod<
-              P,
+              TPattern,
               TPath,
               TQuery,
               THeaders,
               TBody,
               TSuccess,
-              TErrors
+              TErrors,
+              TRouterErrors
             >;
           };
         }
     : {
         [K in MethodName<Method>]: ClientMethod<
-          P,
+          TPattern,
           TPath,
           TQuery,
           THeaders,
           TBody,
           TSuccess,
-          TErrors
+          TErrors,
+          TRouterErrors
         >;
       };
 
 /**
- * Extract client type from a single route.
+ * Extract client type from a single route. Besides the route's own errors,
+ * it can fail with the router's validation and timeout errors.
  */
-type RouteToClient<R> = R extends {
+type RouteToClient<R, TValidationError extends Schema.Top> = R extends {
   readonly method: infer M extends HttpMethod;
   readonly pattern: infer P extends PathInput;
   readonly config: RouteConfig<
@@ -212,57 +285,82 @@ type RouteToClient<R> = R extends {
     infer TErrors
   >;
 }
-  ? ParsePath<P, M, TPath, TQuery, THeaders, TBody, TSuccess, TErrors>
+  ? ParsePath<
+      P,
+      M,
+      TPath,
+      TQuery,
+      THeaders,
+      TBody,
+      TSuccess,
+      TErrors,
+      | ValidationErrorOf<TPath | TQuery | THeaders | TBody, TValidationError>
+      | TimeoutErrorOf<R>
+    >
   : never;
 
 /**
- * Deep merge for client types.
+ * Convert a union to an intersection.
  */
-type DeepMerge<T, U> = T extends object
-  ? U extends object
-    ? {
-        [K in keyof T | keyof U]: K extends keyof T
-          ? K extends keyof U
-            ? DeepMerge<T[K], U[K]>
-            : T[K]
-          : K extends keyof U
-            ? U[K]
-            : never;
-      }
-    : U
-  : U;
+type UnionToIntersection<U> = (
+  U extends unknown
+    ? (u: U) => void
+    : never
+) extends (i: infer I) => void
+  ? I
+  : never;
 
 /**
  * Merge all routes into a single client type.
+ * A router's routes are a union, not a tuple, so the client type of each
+ * route is intersected with the others': routes that share a path segment
+ * intersect into one nested object.
  */
-type MergeRoutes<Routes> = Routes extends readonly [infer First, ...infer Rest]
-  ? Rest extends readonly []
-    ? RouteToClient<First>
-    : DeepMerge<RouteToClient<First>, MergeRoutes<Rest>>
-  : never;
+type MergeRoutes<
+  Routes,
+  TValidationError extends Schema.Top,
+> = UnionToIntersection<RouteToClient<Routes, TValidationError>>;
 
 /**
- * Extract routes array type from router.
+ * Extract the route union from a router.
  */
-type RouterRoutes<R extends AnyRouter> = R extends { routes: infer Routes }
+type RouterRoutes<R extends AnyRouter> = R extends {
+  routes: ReadonlyArray<infer Routes>;
+}
   ? Routes
   : never;
 
 /**
  * Client type for a router.
  */
-export type Client<R extends AnyRouter> = MergeRoutes<RouterRoutes<R>>;
+export type Client<R extends AnyRouter> = MergeRoutes<
+  RouterRoutes<R>,
+  R["validationError"]
+>;
 
 /**
- * Client error for network/parsing failures.
+ * Client error for requests that failed outside the route's contract.
+ * `reason` tells what went wrong:
+ *
+ * - `Transport`: the request could not be sent, or its body read
+ * - `Decode`: the response body could not be parsed or decoded
+ * - `UnknownResponse`: the response matches none of the route's schemas,
+ *   e.g. a proxy error page or an error the route does not declare; its
+ *   `status` and parsed `body` are kept
  */
 export class ClientError extends Schema.ErrorClass<{
   readonly _tag: "ClientError";
+  readonly reason: "Transport" | "Decode" | "UnknownResponse";
   readonly message: string;
+  readonly status?: number;
+  readonly body?: unknown;
   readonly cause: unknown;
 }>("ClientError")({
   _tag: Schema.tag("ClientError"),
+  reason: Schema.Literals(["Transport", "Decode", "UnknownResponse"]),
   message: Schema.String,
+  status: Schema.optional(Schema.Number),
+  body: Schema.optional(Schema.Unknown),
   cause: Schema.optional(Schema.Defect),
 }) {}
 
@@ -272,8 +370,12 @@ export class ClientError extends Schema.ErrorClass<{
 export interface ClientConfig {
   /** Base URL for API requests */
   readonly baseUrl: string;
-  /** Optional fetch implementation (defaults to global fetch) */
-  readonly fetch?: typeof globalThis.fetch;
+  /**
+   * Optional fetch implementation (defaults to global fetch). The client
+   * only calls it with a URL string and init, so any function taking those
+   * works, such as a fetch handler wrapped for tests.
+   */
+  readonly fetch?: (url: string, init: RequestInit) => Promise<Response>;
   /** Optional default headers */
   readonly headers?: Record<string, string>;
 }
@@ -317,18 +419,146 @@ const buildUrl = (
 };
 
 /**
- * Make a request to a route.
+ * Read a response body: JSON for JSON content types, text otherwise.
+ */
+const readBody = (response: Response): Effect.Effect<unknown, ClientError> =>
+  Effect.tryPromise({
+    try: async () => {
+      const text = await response.text();
+      const contentType = response.headers.get("content-type") ?? "";
+      return contentType.includes("json") && text !== ""
+        ? (JSON.parse(text) as unknown)
+        : text;
+    },
+    catch: (error) =>
+      new ClientError({
+        reason: "Decode",
+        message: `Failed to parse response with status ${response.status}`,
+        cause: error,
+      }),
+  });
+
+/**
+ * Decode a parsed response body with a schema's JSON codec.
+ */
+const decode = (
+  schema: Schema.Top,
+  value: unknown,
+): Effect.Effect<unknown, Schema.SchemaError> =>
+  // Cast to remove DecodingServices requirement
+  Schema.decodeUnknownEffect(Schema.toCodecJson(schema))(
+    value,
+  ) as Effect.Effect<unknown, Schema.SchemaError>;
+
+/**
+ * Rebuild the typed error for an error response.
+ *
+ * Mirrors how the handler serializes errors: transformed schemas are decoded
+ * from the body as-is, plain RouteError classes from the `{ error: ... }`
+ * wrapper. Only schemas whose status matches the response are tried, in
+ * declaration order.
+ */
+const decodeError = (
+  errorSchemas: ReadonlyArray<Schema.Top>,
+  status: number,
+  body: unknown,
+): Effect.Effect<never, unknown> =>
+  Effect.gen(function* () {
+    for (const schema of errorSchemas) {
+      if ((getStatusFromSchema(schema) ?? 500) !== status) {
+        continue;
+      }
+
+      const encoded = isTransformedSchema(schema)
+        ? body
+        : typeof body === "object" && body !== null && "error" in body
+          ? (body as { error: unknown }).error
+          : undefined;
+      const decoded = yield* Effect.exit(decode(schema, encoded));
+      if (Exit.isSuccess(decoded)) {
+        return yield* Effect.fail(decoded.value);
+      }
+    }
+
+    return yield* new ClientError({
+      reason: "UnknownResponse",
+      message: `Request failed with status ${status}`,
+      status,
+      body,
+    });
+  });
+
+/**
+ * Decode a successful response with a success schema.
+ */
+const decodeSuccess = (
+  schema: Schema.Top,
+  response: Response,
+): Effect.Effect<unknown, ClientError> =>
+  Effect.gen(function* () {
+    // Handle void responses
+    if (
+      response.status === 204 ||
+      response.headers.get("content-length") === "0"
+    ) {
+      return undefined;
+    }
+
+    // Handle streaming responses
+    const contentType = response.headers.get("content-type") ?? "";
+    if (
+      contentType.includes("application/octet-stream") ||
+      contentType.includes("text/event-stream")
+    ) {
+      if (!response.body) {
+        return Stream.empty;
+      }
+      return Stream.fromReadableStream({
+        evaluate: () => response.body!,
+        onError: () =>
+          new ClientError({
+            reason: "Transport",
+            message: "Stream read error",
+          }),
+      });
+    }
+
+    // Parse and decode the response through the success schema. The
+    // handler sends undefined and null bodies, such as those of
+    // `Schema.Void` routes, empty: decode them as JSON null, which the JSON
+    // codec of `Schema.Void` reads as undefined, unless the schema only
+    // accepts an empty string
+    const body = response.body === null ? "" : yield* readBody(response);
+    const decoded =
+      body === ""
+        ? Effect.catch(decode(schema, null), () => decode(schema, body))
+        : decode(schema, body);
+    return yield* decoded.pipe(
+      Effect.mapError(
+        (error) =>
+          new ClientError({
+            reason: "Decode",
+            message: "Failed to decode response",
+            cause: error,
+          }),
+      ),
+    );
+  });
+
+/**
+ * Make a request to a route, in a client span named after it.
  */
 const makeRequest = (
   config: ClientConfig,
   route: Routable,
+  validationError: Schema.Top,
   options: {
     path?: Record<string, string>;
     query?: Record<string, unknown>;
     headers?: Record<string, string>;
     body?: unknown;
   },
-): Effect.Effect<unknown, ClientError> =>
+): Effect.Effect<unknown, unknown> =>
   Effect.gen(function* () {
     const fetchFn = config.fetch ?? globalThis.fetch;
     const url = buildUrl(
@@ -337,6 +567,7 @@ const makeRequest = (
       options.path,
       options.query,
     );
+    yield* Effect.annotateCurrentSpan("url.full", url);
 
     const requestHeaders = new Headers(config.headers);
     if (options.headers) {
@@ -357,6 +588,9 @@ const makeRequest = (
       }
     }
 
+    // Continue the current trace in the server handling the request
+    yield* TraceContext.inject(requestHeaders);
+
     const response = yield* Effect.tryPromise({
       try: () =>
         fetchFn(url, {
@@ -366,77 +600,59 @@ const makeRequest = (
         }),
       catch: (error) =>
         new ClientError({
+          reason: "Transport",
           message: "Network request failed",
           cause: error,
         }),
     });
+    yield* Effect.annotateCurrentSpan(
+      "http.response.status_code",
+      response.status,
+    );
 
     if (!response.ok) {
-      const errorBody = yield* Effect.tryPromise({
-        try: () => response.json() as Promise<unknown>,
-        catch: () =>
-          new ClientError({
-            message: `Request failed with status ${response.status}: ${response.statusText}`,
-          }),
-      });
-
-      // Try to reconstruct the error from the response
-      const errorObj =
-        typeof errorBody === "object" &&
-        errorBody !== null &&
-        "error" in errorBody
-          ? (errorBody as { error: unknown }).error
-          : errorBody;
-      if (
-        typeof errorObj === "object" &&
-        errorObj !== null &&
-        "_tag" in errorObj
-      ) {
-        return yield* Effect.fail(errorObj as ClientError);
-      }
-
-      return yield* new ClientError({
-        message: `Request failed with status ${response.status}`,
-        cause: errorBody,
-      });
-    }
-
-    // Handle void responses
-    if (
-      response.status === 204 ||
-      response.headers.get("content-length") === "0"
-    ) {
-      return undefined;
+      const errorBody = yield* readBody(response);
+      const timeout =
+        route.config.timeout !== undefined
+          ? getTimeoutOptions(route.config.timeout)
+          : undefined;
+      return yield* decodeError(
+        [
+          ...(route.config.errors ?? []),
+          ...(hasInputs(route.config) ? [validationError] : []),
+          ...(timeout ? [getTimeoutErrorSchema(timeout.status ?? 504)] : []),
+        ],
+        response.status,
+        errorBody,
+      );
     }
 
-    // Handle streaming responses
-    const contentType = response.headers.get("content-type") ?? "";
-    if (
-      contentType.includes("application/octet-stream") ||
-      contentType.includes("text/event-stream")
-    ) {
-      if (!response.body) {
-        return Stream.empty;
+    // Routes with several success schemas tell them apart by status
+    if (Array.isArray(route.config.success)) {
+      const schema = getSuccessSchemas(route.config.success).find(
+        (schema) => getSuccessStatus(schema) === response.status,
+      );
+      if (!schema) {
+        return yield* new ClientError({
+          reason: "UnknownResponse",
+          message: `Unexpected response status ${response.status}`,
+          status: response.status,
+        });
       }
-      return Stream.fromReadableStream({
-        evaluate: () => response.body!,
-        onError: () =>
-          new ClientError({
-            message: "Stream read error",
-          }),
-      });
+      const body = yield* decodeSuccess(schema, response);
+      return { status: response.status, body };
     }
 
-    // Parse JSON response
-    return yield* Effect.tryPromise({
-      try: () => response.json(),
-      catch: (error) =>
-        new ClientError({
-          message: "Failed to parse response",
-          cause: error,
-        }),
-    });
-  });
+    return yield* decodeSuccess(route.config.success as Schema.Top, response);
+  }).pipe(
+    Effect.withSpan(`${route.method} ${route.pattern}`, {
+      kind: "client",
+      attributes: {
+        "http.request.method": route.method,
+        "http.route": route.pattern,
+      },
+    }),
+  );
 
 /**
  * Create a client method for a route.
@@ -444,7 +660,8 @@ const makeRequest = (
 const createMethod = (
   config: ClientConfig,
   route: Routable,
-): ((...args: unknown[]) => Effect.Effect<unknown, ClientError>) => {
+  validationError: Schema.Top,
+): ((...args: unknown[]) => Effect.Effect<unknown, unknown>) => {
   return (...args: unknown[]) => {
     const options = (args[0] ?? {}) as {
       path?: Record<string, string>;
@@ -452,7 +669,7 @@ const createMethod = (
       headers?: Record<string, string>;
       body?: unknown;
     };
-    return makeRequest(config, route, options);
+    return makeRequest(config, route, validationError, options);
   };
 };
 
@@ -492,14 +709,14 @@ const parsePathSegments = (pattern: string): string[] => {
  */
 const buildClientStructure = (
   config: ClientConfig,
-  routes: ReadonlyArray<Routable>,
+  router: AnyRouter,
 ): Record<string, unknown> => {
   const client: Record<string, unknown> = {};
 
-  for (const route of routes) {
+  for (const route of router.routes) {
     const segments = parsePathSegments(route.pattern);
     const methodName = methodToName(route.method);
-    const method = createMethod(config, route);
+    const method = createMethod(config, route, router.validationError);
 
     if (segments.length === 0) {
       // Root route like "/"
@@ -532,6 +749,11 @@ const buildClientStructure = (
 /**
  * Create a type-safe client from a router.
  *
+ * Success bodies are decoded with the route's `success` schema, and error
+ * responses are rebuilt as instances of the route's error classes. Error
+ * responses that match none of them fail with a `ClientError` whose reason
+ * is `UnknownResponse`.
+ *
  * @example
  * ```ts
  * const router = Router.make()
@@ -551,7 +773,7 @@ export const make = <R extends AnyRouter>(
   router: R,
   config: ClientConfig,
 ): Client<R> => {
-  return buildClientStructure(config, router.routes) as Client<R>;
+  return buildClientStructure(config, router) as Client<R>;
 };
 
 /**
@@ -0,0 +1,447 @@
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Schema from "effect/Schema";
+import * as ServiceMap from "effect/ServiceMap";
+import type { HeadersService } from "./Headers.js";
+
+/**
+ * Attributes of a cookie set on the response.
+ */
+export interface CookieOptions {
+  /** Path the cookie is sent for (defaults to "/") */
+  readonly path?: string;
+  /** Domain the cookie is sent to (defaults to the request's host) */
+  readonly domain?: string;
+  /** Lifetime in seconds; 0 or less expires the cookie */
+  readonly maxAge?: number;
+  /** Expiry date, for clients that ignore Max-Age */
+  readonly expires?: Date;
+  /** Whether the cookie is sent with cross-site requests */
+  readonly sameSite?: "strict" | "lax" | "none";
+  /** Only send the cookie over HTTPS */
+  readonly secure?: boolean;
+  /** Hide the cookie from scripts */
+  readonly httpOnly?: boolean;
+  /** Partition the cookie by top-level site (CHIPS) */
+  readonly partitioned?: boolean;
+}
+
+/**
+ * The shape of the Cookies service.
+ */
+export interface CookiesService {
+  /**
+   * Get a request cookie by name.
+   * Returns undefined if the cookie is not present.
+   */
+  readonly get: (name: string) => Effect.Effect<string | undefined>;
+
+  /**
+   * Get all request cookies by name.
+   */
+  readonly getAll: Effect.Effect<Readonly<Record<string, string>>>;
+
+  /**
+   * Set a cookie on the response.
+   */
+  readonly set: (
+    name: string,
+    value: string,
+    options?: CookieOptions,
+  ) => Effect.Effect<void>;
+
+  /**
+   * Delete a cookie on the client. The path and domain must match the ones
+   * it was set with.
+   */
+  readonly delete: (
+    name: string,
+    options?: Pick<CookieOptions, "path" | "domain">,
+  ) => Effect.Effect<void>;
+}
+
+/**
+ * Service for reading request cookies and setting response cookies.
+ *
+ * This service is provided automatically to route handlers alongside
+ * `Headers`. Reads only see the cookies of the request, not the ones set
+ * while handling it.
+ *
+ * @example
+ * ```ts
+ * const handler = Effect.fnUntraced(function* () {
+ *   const theme = yield* Cookies.get("theme");
+ *   yield* Cookies.set("visited", "1", { maxAge: 3600, httpOnly: true });
+ *   return { theme };
+ * });
+ * ```
+ */
+export class Cookies extends ServiceMap.Service<Cookies, CookiesService>()(
+  "funcho/Cookies",
+) {}
+
+/**
+ * Secrets for signing cookies. The first secret signs new cookies, and all
+ * of them verify cookies, so secrets can be rotated by adding a new one in
+ * front and dropping the oldest later.
+ *
+ * Routes reading or setting signed cookies require this service, so it must
+ * be provided with the router's Layer.
+ *
+ * @example
+ * ```ts
+ * const handler = Handler.toFetch(
+ *   router,
+ *   Layer.succeed(Cookies.Secrets, [Config.cookieSecret, Config.oldCookieSecret]),
+ * );
+ * ```
+ */
+export class Secrets extends ServiceMap.Service<
+  Secrets,
+  ReadonlyArray<string>
+>()("funcho/Cookies/Secrets") {}
+
+/**
+ * Get a request cookie by name.
+ */
+export const get = (
+  name: string,
+): Effect.Effect<string | undefined, never, Cookies> =>
+  Cookies.use((c) => c.get(name));
+
+/**
+ * Get all request cookies.
+ */
+export const getAll: Effect.Effect<
+  Readonly<Record<string, string>>,
+  never,
+  Cookies
+> = Cookies.use((c) => c.getAll);
+
+/**
+ * Set a response cookie.
+ */
+export const set = (
+  name: string,
+  value: string,
+  options?: CookieOptions,
+): Effect.Effect<void, never, Cookies> =>
+  Cookies.use((c) => c.set(name, value, options));
+
+/**
+ * Delete a cookie (`delete` is a reserved word).
+ */
+export const del = (
+  name: string,
+  options?: Pick<CookieOptions, "path" | "domain">,
+): Effect.Effect<void, never, Cookies> =>
+  Cookies.use((c) => c.delete(name, options));
+
+/**
+ * Parse a `Cookie` header. The first of several cookies with the same name
+ * wins, as it has the most specific path.
+ */
+export const parse = (header: string): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const pair of header.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+    const name = pair.slice(0, separator).trim();
+    if (!name || name in cookies) continue;
+    let value = pair.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+};
+
+/**
+ * Characters of cookie names: an RFC 6265 token.
+ */
+const cookieName = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Characters of cookie attribute values: RFC 6265 av-octets, anything
+ * printable but `;`.
+ */
+const attributeValue = /^[\x20-\x3a\x3c-\x7e]*$/;
+
+/**
+ * Serialize a cookie for a `Set-Cookie` header. The value is URI-encoded;
+ * names, paths and domains that cannot appear in the header as they are
+ * throw instead, as they would inject attributes or headers.
+ */
+export const serialize = (
+  name: string,
+  value: string,
+  options: CookieOptions = {},
+): string => {
+  if (!cookieName.test(name)) {
+    throw new Error(`Invalid cookie name: ${JSON.stringify(name)}`);
+  }
+  for (const attribute of ["path", "domain"] as const) {
+    const attributeText = options[attribute];
+    if (attributeText !== undefined && !attributeValue.test(attributeText)) {
+      throw new Error(
+        `Invalid cookie ${attribute}: ${JSON.stringify(attributeText)}`,
+      );
+    }
+  }
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path ?? "/"}`,
+  ];
+  if (options.domain) attributes.push(`Domain=${options.domain}`);
+  if (options.maxAge !== undefined) {
+    attributes.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+  if (options.expires) {
+    attributes.push(`Expires=${options.expires.toUTCString()}`);
+  }
+  if (options.sameSite) {
+    attributes.push(
+      `SameSite=${options.sameSite[0]!.toUpperCase()}${options.sameSite.slice(1)}`,
+    );
+  }
+  // Browsers reject SameSite=None and partitioned cookies without Secure
+  if (options.secure || options.sameSite === "none" || options.partitioned) {
+    attributes.push("Secure");
+  }
+  if (options.httpOnly) attributes.push("HttpOnly");
+  if (options.partitioned) attributes.push("Partitioned");
+  return attributes.join("; ");
+};
+
+/**
+ * Create a Cookies service on top of a request's Headers service.
+ */
+export const make = (headers: HeadersService): CookiesService => {
+  let parsed: Record<string, string> | undefined;
+  const cookies = Effect.map(headers.get("cookie"), (header) => {
+    parsed ??= header ? parse(header) : {};
+    return parsed;
+  });
+
+  // Invalid names and attributes are defects of the handler
+  const appendCookie = (
+    name: string,
+    value: string,
+    options?: CookieOptions,
+  ): Effect.Effect<void> =>
+    Effect.suspend(() =>
+      headers.append("set-cookie", serialize(name, value, options)),
+    );
+
+  return {
+    get: (name) => Effect.map(cookies, (all) => all[name]),
+    getAll: cookies,
+    set: appendCookie,
+    delete: (name, options) =>
+      appendCookie(name, "", { ...options, maxAge: 0, expires: new Date(0) }),
+  };
+};
+
+/**
+ * Import an HMAC key, once per secret.
+ */
+const keys = new Map<string, Promise<CryptoKey>>();
+const importKey = (secret: string): Promise<CryptoKey> => {
+  let key = keys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+    keys.set(secret, key);
+  }
+  return key;
+};
+
+/**
+ * Encode bytes as unpadded base64url, which is safe in cookie values.
+ */
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * Decode unpadded base64url. Returns undefined for invalid input.
+ */
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> | undefined => {
+  try {
+    return Uint8Array.from(
+      atob(text.replace(/-/g, "+").replace(/_/g, "/")),
+      (char) => char.charCodeAt(0),
+    );
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Sign a cookie value. The name is part of the signed data, so a signed
+ * value cannot be replayed under another cookie.
+ */
+const sign = (secret: string, name: string, value: string) =>
+  Effect.promise(async () => {
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await importKey(secret),
+      new TextEncoder().encode(`${name}=${value}`),
+    );
+    return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+  });
+
+/**
+ * Verify a signed cookie value against each secret, returning the value
+ * without its signature.
+ */
+const unsign = (secrets: ReadonlyArray<string>, name: string, signed: string) =>
+  Effect.promise(async () => {
+    const separator = signed.lastIndexOf(".");
+    const signature = fromBase64Url(signed.slice(separator + 1));
+    if (separator === -1 || !signature) return undefined;
+    const value = signed.slice(0, separator);
+    const data = new TextEncoder().encode(`${name}=${value}`);
+    for (const secret of secrets) {
+      const key = await importKey(secret);
+      if (await crypto.subtle.verify("HMAC", key, signature, data)) {
+        return value;
+      }
+    }
+    return undefined;
+  });
+
+/**
+ * Get a signed request cookie. Returns undefined if the cookie is missing
+ * or its signature does not match any secret.
+ */
+export const getSigned = (
+  name: string,
+): Effect.Effect<string | undefined, never, Cookies | Secrets> =>
+  Effect.gen(function* () {
+    const signed = yield* get(name);
+    if (signed === undefined) return undefined;
+    return yield* unsign(yield* Secrets, name, signed);
+  });
+
+/**
+ * Set a response cookie signed with the first secret.
+ */
+export const setSigned = (
+  name: string,
+  value: string,
+  options?: CookieOptions,
+): Effect.Effect<void, never, Cookies | Secrets> =>
+  Effect.gen(function* () {
+    const [secret] = yield* Secrets;
+    if (secret === undefined) {
+      return yield* Effect.die(new Error("No secret to sign cookies with"));
+    }
+    yield* set(name, yield* sign(secret, name, value), options);
+  });
+
+/**
+ * Options for a typed cookie.
+ */
+export interface TypedCookieOptions<Signed extends boolean>
+  extends CookieOptions {
+  /** Sign the cookie with `Cookies.Secrets` */
+  readonly signed?: Signed;
+}
+
+/**
+ * A cookie holding values of a schema.
+ */
+export interface TypedCookie<A, R> {
+  /** The cookie's value, or undefined if it is missing or invalid */
+  readonly get: Effect.Effect<A | undefined, never, R>;
+  /** Set the cookie with the default options, or override them */
+  readonly set: (
+    value: A,
+    options?: CookieOptions,
+  ) => Effect.Effect<void, never, R>;
+  /** Delete the cookie */
+  readonly delete: Effect.Effect<void, never, Cookies>;
+}
+
+/**
+ * Define a cookie holding values of a schema, stored as JSON. Values that
+ * fail to decode, or signed cookies whose signature does not match, read as
+ * undefined.
+ *
+ * @example
+ * ```ts
+ * const Session = Cookies.typed(
+ *   "session",
+ *   Schema.Struct({ userId: Schema.String }),
+ *   { signed: true, httpOnly: true, sameSite: "lax", maxAge: 86400 },
+ * );
+ *
+ * const login = Effect.fnUntraced(function* () {
+ *   yield* Session.set({ userId: "123" });
+ * });
+ *
+ * const profile = Effect.fnUntraced(function* () {
+ *   const session = yield* Session.get;
+ * });
+ * ```
+ */
+export const typed = <
+  S extends Schema.Top,
+  const Signed extends boolean = false,
+>(
+  name: string,
+  schema: S,
+  options: TypedCookieOptions<Signed> = {},
+): TypedCookie<
+  S["Type"],
+  Cookies | (Signed extends true ? Secrets : never)
+> => {
+  const { signed, ...cookieOptions } = options;
+  const json = Schema.fromJsonString(schema);
+  // Cast to remove DecodingServices and EncodingServices requirements
+  const decode = Schema.decodeUnknownEffect(json) as (
+    input: unknown,
+  ) => Effect.Effect<S["Type"], Schema.SchemaError>;
+  const encode = Schema.encodeEffect(json) as (
+    input: S["Type"],
+  ) => Effect.Effect<string, Schema.SchemaError>;
+
+  const read = (signed ? getSigned(name) : get(name)) as Effect.Effect<
+    string | undefined,
+    never,
+    Cookies
+  >;
+  const write = (value: string, overrides?: CookieOptions) =>
+    (signed ? setSigned : set)(name, value, {
+      ...cookieOptions,
+      ...overrides,
+    }) as Effect.Effect<void, never, Cookies>;
+
+  return {
+    get: Effect.flatMap(read, (value) =>
+      value === undefined
+        ? Effect.succeed(undefined)
+        : Effect.map(Effect.exit(decode(value)), (exit) =>
+            Exit.isSuccess(exit) ? exit.value : undefined,
+          ),
+    ),
+    set: (value, overrides) =>
+      Effect.flatMap(Effect.orDie(encode(value)), (encoded) =>
+        write(encoded, overrides),
+      ),
+    delete: del(name, cookieOptions),
+  };
+};
@@ -0,0 +1,220 @@
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Headers from "./Headers.js";
+import * as Matcher from "./internal/matcher.js";
+import type { HttpMethod, PathInput } from "./Route.js";
+import * as Route from "./Route.js";
+import type { AnyRouter } from "./Router.js";
+import * as Router from "./Router.js";
+
+/**
+ * CORS configuration.
+ */
+export interface CorsOptions {
+  /**
+   * Allowed origins: `"*"` for any origin (the default), a single origin,
+   * a list of origins, or a predicate.
+   */
+  readonly origin?:
+    | string
+    | ReadonlyArray<string>
+    | ((origin: string) => boolean);
+  /** Allowed methods for preflights (defaults to the path's methods) */
+  readonly methods?: ReadonlyArray<HttpMethod>;
+  /** Allowed request headers for preflights (defaults to the requested ones) */
+  readonly allowedHeaders?: ReadonlyArray<string>;
+  /** Response headers exposed to the browser */
+  readonly exposedHeaders?: ReadonlyArray<string>;
+  /** Whether requests may include credentials (cookies, authorization) */
+  readonly credentials?: boolean;
+  /** How long, in seconds, browsers may cache a preflight response */
+  readonly maxAge?: number;
+}
+
+/**
+ * Resolve the `Access-Control-Allow-Origin` value for a request origin.
+ * Returns undefined if the origin is not allowed.
+ */
+const allowOrigin = (
+  options: CorsOptions,
+  origin: string | undefined,
+): string | undefined => {
+  const allowed = options.origin ?? "*";
+
+  if (allowed === "*") {
+    // Browsers reject "*" for credentialed requests, so reflect the origin
+    return options.credentials ? origin : "*";
+  }
+  if (origin === undefined) {
+    return undefined;
+  }
+  if (typeof allowed === "string") {
+    return allowed === origin ? origin : undefined;
+  }
+  if (typeof allowed === "function") {
+    return allowed(origin) ? origin : undefined;
+  }
+  return allowed.includes(origin) ? origin : undefined;
+};
+
+/**
+ * The headers shared by preflight and actual responses, or undefined if the
+ * request origin is not allowed.
+ */
+const originHeaders = (
+  options: CorsOptions,
+  origin: string | undefined,
+): Record<string, string> | undefined => {
+  const allowed = allowOrigin(options, origin);
+  if (allowed === undefined) {
+    return undefined;
+  }
+  return {
+    "access-control-allow-origin": allowed,
+    ...(allowed !== "*" ? { vary: "Origin" } : {}),
+    ...(options.credentials
+      ? { "access-control-allow-credentials": "true" }
+      : {}),
+  };
+};
+
+/**
+ * Set the headers shared by preflight and actual responses.
+ * Returns false if the request origin is not allowed.
+ */
+const setOriginHeaders = Effect.fnUntraced(function* (options: CorsOptions) {
+  const headers = originHeaders(options, yield* Headers.get("origin"));
+  if (headers === undefined) {
+    return false;
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (name === "vary") {
+      yield* Headers.append(name, value);
+    } else {
+      yield* Headers.set(name, value);
+    }
+  }
+  return true;
+});
+
+/**
+ * Create a middleware that sets CORS headers on every response of the
+ * router using it: route results, error responses (including validation
+ * failures), and the 404, 405 and OPTIONS responses for unmatched requests.
+ *
+ * Pair it with `Cors.preflight` to answer the browser's preflight requests.
+ *
+ * @example
+ * ```ts
+ * const options = { origin: ["https://app.example.com"], credentials: true };
+ *
+ * const api = Router.make().add(getUser).add(createUser);
+ *
+ * const router = Router.make()
+ *   .add(api)
+ *   .add(Cors.preflight(api, options))
+ *   .use(Cors.make(options));
+ * ```
+ */
+export const make =
+  (options: CorsOptions = {}): Router.Middleware =>
+  (next, request) =>
+    Effect.map(next, (response) => {
+      // Preflight routes set their own
+      if (response.headers.has("access-control-allow-origin")) {
+        return response;
+      }
+      const headers = originHeaders(
+        options,
+        request.headers.get("origin") ?? undefined,
+      );
+      if (headers === undefined) {
+        return response;
+      }
+
+      for (const [name, value] of Object.entries(headers)) {
+        if (name === "vary") {
+          response.headers.append(name, value);
+        } else {
+          response.headers.set(name, value);
+        }
+      }
+      if (options.exposedHeaders?.length) {
+        response.headers.set(
+          "access-control-expose-headers",
+          options.exposedHeaders.join(", "),
+        );
+      }
+      return response;
+    });
+
+/**
+ * Create the OPTIONS route answering preflight requests for a path.
+ */
+const preflightRoute = (
+  path: PathInput,
+  allowMethods: string,
+  options: CorsOptions,
+) =>
+  Route.options(
+    path,
+    { success: Schema.Void.pipe(Route.status(204)) },
+    Effect.fnUntraced(function* () {
+      const allowed = yield* setOriginHeaders(options);
+      if (!allowed) {
+        return;
+      }
+
+      yield* Headers.set("access-control-allow-methods", allowMethods);
+      const allowHeaders =
+        options.allowedHeaders?.join(", ") ??
+        (yield* Headers.get("access-control-request-headers"));
+      if (allowHeaders) {
+        yield* Headers.set("access-control-allow-headers", allowHeaders);
+      }
+      if (options.maxAge !== undefined) {
+        yield* Headers.set("access-control-max-age", String(options.maxAge));
+      }
+    }),
+  );
+
+/**
+ * Create OPTIONS routes answering CORS preflight requests for every path
+ * of a router. Paths with an explicit OPTIONS route are left alone.
+ *
+ * Preflights from origins that are not allowed get a response without CORS
+ * headers, which the browser treats as a refusal.
+ */
+export const preflight = (router: AnyRouter, options: CorsOptions = {}) => {
+  // Group the router's methods by path, treating patterns that only differ
+  // in param names as the same path
+  const paths = new Map<
+    string,
+    { path: PathInput; methods: Array<HttpMethod> }
+  >();
+  for (const route of router.routes) {
+    const signature = Matcher.signature(route.pattern);
+    const entry = paths.get(signature) ?? { path: route.pattern, methods: [] };
+    entry.methods.push(route.method);
+    paths.set(signature, entry);
+  }
+
+  let preflightRouter: Router.Router<ReturnType<typeof preflightRoute>> =
+    Router.make();
+  for (const { path, methods } of paths.values()) {
+    if (methods.includes("OPTIONS")) {
+      continue;
+    }
+    if (methods.includes("GET") && !methods.includes("HEAD")) {
+      methods.push("HEAD");
+    }
+    const allowMethods = (options.methods ?? methods).join(", ");
+
+    preflightRouter = preflightRouter.add(
+      preflightRoute(path, allowMethods, options),
+    );
+  }
+
+  return preflightRouter;
+};
@@ -0,0 +1,237 @@
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as OpenApi from "./OpenApi.js";
+import type { PathInput } from "./Route.js";
+import * as Route from "./Route.js";
+import type { AnyRouter } from "./Router.js";
+import * as Router from "./Router.js";
+
+/**
+ * Options for the documentation routes.
+ */
+export interface DocsOptions<
+  TPath extends PathInput = "/docs",
+  TSpecPath extends PathInput = "/openapi.json",
+> {
+  /** Path of the HTML reference page (defaults to "/docs") */
+  readonly path?: TPath;
+  /** Path of the OpenAPI document (defaults to "/openapi.json") */
+  readonly specPath?: TSpecPath;
+  /** Document metadata (defaults to a generic title and version) */
+  readonly info?: OpenApi.Info;
+}
+
+/**
+ * Default document metadata.
+ */
+const defaultInfo: OpenApi.Info = {
+  title: "API Reference",
+  version: "1.0.0",
+};
+
+/**
+ * Escape text for use in HTML.
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Serialize JSON for embedding in a `<script>` element.
+ */
+const embedJson = (value: unknown): string =>
+  JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+
+/**
+ * Inline styles for the reference page.
+ */
+const styles = `
+body { margin: 0; font: 14px/1.5 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+header { padding: 24px 32px; background: #fff; border-bottom: 1px solid #d0d7de; }
+header h1 { margin: 0 0 4px; font-size: 24px; }
+header p { margin: 0; color: #59636e; }
+main { max-width: 960px; margin: 0 auto; padding: 24px 32px; }
+details { margin-bottom: 12px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+summary { display: flex; gap: 12px; align-items: center; padding: 10px 16px; cursor: pointer; font-family: ui-monospace, monospace; }
+section { padding: 0 16px 16px; }
+h3 { margin: 16px 0 8px; font-size: 13px; text-transform: uppercase; color: #59636e; }
+table { width: 100%; border-collapse: collapse; }
+td, th { padding: 6px 8px; border-bottom: 1px solid #d0d7de; text-align: left; vertical-align: top; }
+pre { margin: 0; padding: 8px; overflow: auto; background: #f6f8fa; border-radius: 4px; font-size: 12px; }
+.method { min-width: 64px; padding: 2px 8px; border-radius: 4px; color: #fff; font-weight: 600; text-align: center; }
+.get { background: #1f6feb; } .post { background: #1a7f37; } .put { background: #9a6700; }
+.patch { background: #8250df; } .delete { background: #cf222e; } .head, .options { background: #59636e; }
+`;
+
+/**
+ * Renders the embedded document with plain DOM APIs, so the page
+ * needs no external scripts or stylesheets.
+ */
+const script = `
+(function () {
+  var spec = JSON.parse(document.getElementById("spec").textContent);
+  var main = document.querySelector("main");
+  function el(tag, props, children) {
+    var node = document.createElement(tag);
+    for (var key in props || {}) node[key] = props[key];
+    (children || []).forEach(function (child) {
+      node.append(child);
+    });
+    return node;
+  }
+  function json(value) {
+    return el("pre", { textContent: JSON.stringify(value, null, 2) });
+  }
+  function content(media) {
+    return Object.keys(media || {}).map(function (type) {
+      return el("div", {}, [el("code", { textContent: type }), json(media[type].schema)]);
+    });
+  }
+  Object.keys(spec.paths).forEach(function (path) {
+    var item = spec.paths[path];
+    Object.keys(item).forEach(function (method) {
+      var operation = item[method];
+      var section = el("section");
+      if (operation.parameters) {
+        section.append(el("h3", { textContent: "Parameters" }));
+        section.append(el("table", {}, operation.parameters.map(function (p) {
+          return el("tr", {}, [
+            el("td", {}, [el("code", { textContent: p.name })]),
+            el("td", { textContent: p.in + (p.required ? ", required" : "") }),
+            el("td", {}, [json(p.schema)]),
+          ]);
+        })));
+      }
+      if (operation.requestBody) {
+        section.append(el("h3", { textContent: "Request body" }));
+        content(operation.requestBody.content).forEach(function (n) { section.append(n); });
+      }
+      section.append(el("h3", { textContent: "Responses" }));
+      Object.keys(operation.responses).forEach(function (status) {
+        var response = operation.responses[status];
+        section.append(el("p", {}, [el("strong", { textContent: status }), " " + response.description]));
+        if (response.headers) section.append(json(response.headers));
+        content(response.content).forEach(function (n) { section.append(n); });
+      });
+      main.append(el("details", {}, [
+        el("summary", {}, [
+          el("span", { className: "method " + method, textContent: method.toUpperCase() }),
+          el("span", { textContent: path }),
+        ]),
+        section,
+      ]));
+    });
+  });
+})();
+`;
+
+/**
+ * Resolve the path of `to` relative to the page at `from`, so links keep
+ * working when the routes are mounted under a prefix.
+ */
+const relativePath = (from: string, to: string): string => {
+  // A page's links resolve against its path up to the last "/"
+  const base = from.split("/").slice(0, -1);
+  const target = to.split("/");
+  let common = 0;
+  while (
+    common < base.length &&
+    common < target.length - 1 &&
+    base[common] === target[common]
+  ) {
+    common++;
+  }
+  const up = base.slice(common).map(() => "..");
+  return [...(up.length > 0 ? up : ["."]), ...target.slice(common)].join("/");
+};
+
+/**
+ * Render a self-contained HTML reference page for an OpenAPI document.
+ * The document is embedded in the page and rendered without any CDN assets.
+ * `specPath` is the link to the document, relative to the page or absolute.
+ */
+export const html = (
+  document: OpenApi.Document,
+  options: { readonly specPath?: string } = {},
+): string => {
+  const { title, version, description } = document.info;
+  const specLink = options.specPath
+    ? ` &middot; <a href="${escapeHtml(options.specPath)}">OpenAPI document</a>`
+    : "";
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>Version ${escapeHtml(version)}${specLink}</p>
+${description ? `<p>${escapeHtml(description)}</p>` : ""}
+</header>
+<main></main>
+<script id="spec" type="application/json">${embedJson(document)}</script>
+<script>${script}</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * Create routes that serve the OpenAPI document of a router and an
+ * interactive HTML reference page for it.
+ *
+ * The document is generated once, when the routes are created, so routes
+ * added to the router afterwards are not described. The page links to the
+ * document with a relative URL, so both can be mounted under a prefix.
+ *
+ * @example
+ * ```ts
+ * const api = Router.make().add(getUser).add(createUser);
+ *
+ * const router = Router.make()
+ *   .add(api)
+ *   .add(Docs.routes(api, { path: "/docs" }));
+ *
+ * // GET /docs         → HTML reference page
+ * // GET /openapi.json → OpenAPI 3.1 document
+ *
+ * // Or under a prefix: GET /api/docs and GET /api/openapi.json
+ * const mounted = Router.make().mount("/api", Docs.routes(api));
+ * ```
+ */
+export const routes = <
+  const TPath extends PathInput = "/docs",
+  const TSpecPath extends PathInput = "/openapi.json",
+>(
+  router: AnyRouter,
+  options: DocsOptions<TPath, TSpecPath> = {},
+) => {
+  const path = options.path ?? ("/docs" as TPath);
+  const specPath = options.specPath ?? ("/openapi.json" as TSpecPath);
+  const document = OpenApi.fromRouter(router, options.info ?? defaultInfo);
+  const page = html(document, { specPath: relativePath(path, specPath) });
+  // Checked once, here: the document is plain JSON by construction
+  const json = Schema.decodeUnknownSync(Schema.Json)(document);
+
+  return Router.make()
+    .add(
+      Route.get(specPath, { success: Schema.Json }, () => Effect.succeed(json)),
+    )
+    .add(
+      Route.get(
+        path,
+        { success: Schema.String.pipe(Route.contentType("text/html")) },
+        () => Effect.succeed(page),
+      ),
+    );
+};
@@ -222,3 +222,83 @@ export const errorMatchesSchema = (
 
   return false;
 };
+
+/**
+ * Built-in error for requests whose path, query, headers or body fail
+ * validation against the route's schemas.
+ *
+ * Every route can fail with this error, so it is part of every route's
+ * error union. Routers can change its response format by passing a
+ * transformed schema as the `validationError` option of `Router.make`.
+ *
+ * @example
+ * ```ts
+ * // Response body for a body that is missing `name`:
+ * // {
+ * //   "error": {
+ * //     "_tag": "RequestValidationError",
+ * //     "location": "body",
+ * //     "message": "Invalid request body",
+ * //     "issues": [{ "path": ["name"], "message": "Missing key" }]
+ * //   }
+ * // }
+ * ```
+ */
+export class RequestValidationError extends RouteError(
+  "RequestValidationError",
+  400,
+)({
+  location: Schema.Literals(["path", "query", "headers", "body"]),
+  message: Schema.String,
+  issues: Schema.Array(
+    Schema.Struct({
+      path: Schema.Array(Schema.Union([Schema.String, Schema.Number])),
+      message: Schema.String,
+    }),
+  ),
+}) {}
+
+/**
+ * Built-in error for requests whose handler did not finish within the
+ * route's timeout. The handler is interrupted and the request fails with
+ * this error, with a 504 status unless the timeout sets another one.
+ *
+ * Only routes with a timeout, their own `timeout` or the router's, can
+ * fail with it, so only their error unions include it.
+ */
+export class TimeoutError extends RouteError(
+  "TimeoutError",
+  504,
+)({
+  message: Schema.String,
+}) {}
+
+/**
+ * Status a timed out request responds with: usually 504 or 503, but any
+ * error status the API documents for timeouts will do.
+ */
+export type TimeoutStatus = number;
+
+/**
+ * Subclasses of `TimeoutError` responding with another status.
+ */
+const timeoutErrors = new Map<TimeoutStatus, typeof TimeoutError>([
+  [504, TimeoutError],
+]);
+
+/**
+ * Get the error schema of timeouts responding with the given status:
+ * `TimeoutError` itself for 504, or a subclass for other statuses, so
+ * clients decode both as `TimeoutError`.
+ */
+export const getTimeoutErrorSchema = (
+  status: TimeoutStatus,
+): typeof TimeoutError => {
+  let schema = timeoutErrors.get(status);
+  if (!schema) {
+    schema = class extends TimeoutError {};
+    Object.defineProperty(schema, "status", { value: status, writable: false });
+    timeoutErrors.set(status, schema);
+  }
+  return schema;
+};
@@ -1,7 +1,10 @@
-import type * as Effect from "effect/Effect";
-import type * as Schema from "effect/Schema";
+import * as Effect from "effect/Effect";
+import type * as Exit from "effect/Exit";
+import * as Schema from "effect/Schema";
+import type * as SchemaAST from "effect/SchemaAST";
 import * as ServiceMap from "effect/ServiceMap";
 import type { AnyRouteError, InstanceOf } from "./Error.js";
+import type { SecurityScheme } from "./OpenApi.js";
 import type {
   AnyRoute,
   HandlerInput,
@@ -10,7 +13,10 @@ import type {
   PathInput,
   Route,
   RouteConfig,
+  SuccessSchema,
+  Timed,
 } from "./Route.js";
+import type { Middleware } from "./Router.js";
 
 /**
  * Counter for generating unique gate IDs.
@@ -23,22 +29,118 @@ let gateIdCounter = 0;
 type ErrorsUnion<TErrors extends ReadonlyArray<AnyRouteError>> =
   TErrors extends readonly [] ? never : InstanceOf<TErrors[number]>;
 
+/**
+ * A struct schema for gate inputs, which merges into a route's schema.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type InputSchema = Schema.Struct<any>;
+
+/**
+ * Input schemas of a gate, merged into the config of each of its routes, and
+ * the security schemes it enforces.
+ */
+export interface GateConfig<
+  TPath extends InputSchema | never = never,
+  TQuery extends InputSchema | never = never,
+  THeaders extends InputSchema | never = never,
+> {
+  /** Schema for path parameters the gate needs (e.g., { orgId: Schema.String }) */
+  readonly path?: TPath;
+  /** Schema for query parameters the gate needs */
+  readonly query?: TQuery;
+  /** Schema for request headers the gate needs */
+  readonly headers?: THeaders;
+  /** Security schemes the gate enforces, by name, for API descriptions */
+  readonly security?: Record<string, SecurityScheme>;
+}
+
+/**
+ * Gate handler input: the validated values of the gate's own schemas.
+ */
+export type GateInput<
+  TPath extends InputSchema | never,
+  TQuery extends InputSchema | never,
+  THeaders extends InputSchema | never,
+> = Omit<HandlerInput<TPath, TQuery, THeaders, never>, "body">;
+
+/**
+ * Merge a gate input schema into a route schema. Route fields win.
+ */
+type MergeSchema<TRoute extends Schema.Top, TGate extends InputSchema> = [
+  TGate,
+] extends [never]
+  ? TRoute
+  : [TRoute] extends [never]
+    ? TGate
+    : TRoute extends Schema.Struct<infer RouteFields>
+      ? TGate extends Schema.Struct<infer GateFields>
+        ? Schema.Struct<Omit<GateFields, keyof RouteFields> & RouteFields>
+        : TRoute
+      : TRoute;
+
+/**
+ * What a gate's `after` hook sees once the route has run.
+ */
+export interface GateOutcome<TContext> {
+  /** The route's result, or its error */
+  readonly exit: Exit.Exit<unknown, unknown>;
+  /** The context the gate handler returned */
+  readonly context: TContext;
+  /** Headers of the response so far, which the hook may change */
+  readonly responseHeaders: globalThis.Headers;
+}
+
+/**
+ * Run a gate's after hooks on the outcome of a route.
+ */
+type AfterHooks<TContext, E, R> = (
+  exit: Exit.Exit<unknown, unknown>,
+  services: ServiceMap.ServiceMap<TContext>,
+  responseHeaders: globalThis.Headers,
+) => Effect.Effect<void, E, R>;
+
 /**
  * A Gate wraps routes with shared behavior (like auth) and merged error types.
  * The gate handler runs before each route and can provide typed context.
+ * `TParents` are the contexts provided by the gates it extends.
  */
 export interface Gate<
   TErrors extends ReadonlyArray<AnyRouteError> = readonly [],
   TContext = void,
   R = never,
   Routes extends AnyGatedRoute = never,
+  TPath extends InputSchema | never = never,
+  TQuery extends InputSchema | never = never,
+  THeaders extends InputSchema | never = never,
+  TParents = never,
 > {
   readonly _tag: "Gate";
   readonly errors: TErrors;
-  readonly handler: () => Effect.Effect<TContext, ErrorsUnion<TErrors>, R>;
+  readonly config: GateConfig<TPath, TQuery, THeaders>;
+  readonly handler: (
+    input: GateInput<TPath, TQuery, THeaders>,
+  ) => Effect.Effect<TContext, ErrorsUnion<TErrors>, R>;
   readonly routes: ReadonlyArray<Routes>;
   readonly Context: ServiceMap.Service<TContext, TContext>;
 
+  /**
+   * Run the gate, after the gates it extends, and collect the contexts
+   * provided to its routes.
+   */
+  readonly provide: (
+    input: GateInput<TPath, TQuery, THeaders>,
+  ) => Effect.Effect<
+    ServiceMap.ServiceMap<TContext | TParents>,
+    ErrorsUnion<TErrors>,
+    R
+  >;
+
+  /**
+   * Run the gate's after hook, then those of the gates it extends, once the
+   * route has run.
+   */
+  readonly after: AfterHooks<TContext | TParents, ErrorsUnion<TErrors>, R>;
+
   /**
    * Add a route to this gate.
    * The route will have the gate's errors merged with its own,
@@ -50,7 +152,20 @@ export interface Gate<
     TErrors,
     TContext,
     R,
-    Routes | GatedRouteFrom<R2, TErrors, TContext, R>
+    | Routes
+    | GatedRouteFrom<
+        R2,
+        TErrors,
+        TContext | TParents,
+        R,
+        TPath,
+        TQuery,
+        THeaders
+      >,
+    TPath,
+    TQuery,
+    THeaders,
+    TParents
   >;
 }
 
@@ -62,6 +177,9 @@ type GatedRouteFrom<
   TErrors extends ReadonlyArray<AnyRouteError>,
   TContext,
   R,
+  TGatePath extends InputSchema,
+  TGateQuery extends InputSchema,
+  TGateHeaders extends InputSchema,
 > = R2 extends Route<
   infer TMethod,
   infer TPattern,
@@ -73,25 +191,65 @@ type GatedRouteFrom<
   infer TRouteErrors,
   infer RRoute
 >
-  ? GatedRoute<
-      TMethod,
-      TPattern,
-      TPath,
-      TQuery,
-      THeaders,
-      TBody,
-      TSuccess,
+  ? KeepTimed<
+      R2,
+      GatedRoute<
+        TMethod,
+        TPattern,
+        MergeSchema<TPath, TGatePath>,
+        MergeSchema<TQuery, TGateQuery>,
+        MergeSchema<THeaders, TGateHeaders>,
+        TBody,
+        TSuccess,
+        TErrors,
+        TRouteErrors,
+        TContext,
+        R,
+        RRoute,
+        TGatePath,
+        TGateQuery,
+        TGateHeaders
+      >
+    >
+  : never;
+
+/**
+ * A gated route, timed if the route it was made from is.
+ */
+type KeepTimed<R2, G> = R2 extends Timed<unknown> ? Timed<G> : G;
+
+/**
+ * The routes a gate produces from the given routes, as if each one had been
+ * passed to its `add`.
+ */
+export type GatedRoutes<
+  TGate extends AnyGate,
+  Routes extends AnyRoute,
+> = TGate extends Gate<
+  infer TErrors,
+  infer TContext,
+  infer R,
+  AnyGatedRoute,
+  infer TPath,
+  infer TQuery,
+  infer THeaders,
+  infer TParents
+>
+  ? GatedRouteFrom<
+      Routes,
       TErrors,
-      TRouteErrors,
-      TContext,
+      TContext | TParents,
       R,
-      RRoute
+      TPath,
+      TQuery,
+      THeaders
     >
   : never;
 
 /**
  * A route that has been added to a gate.
- * Combines the gate's errors with the route's errors.
+ * Combines the gate's errors and input schemas with the route's.
+ * `TContext` are the contexts provided by the gate and the gates it extends.
  */
 export interface GatedRoute<
   TMethod extends HttpMethod,
@@ -100,12 +258,15 @@ export interface GatedRoute<
   TQuery extends Schema.Top,
   THeaders extends Schema.Top,
   TBody extends Schema.Top,
-  TSuccess extends Schema.Top,
+  TSuccess extends SuccessSchema,
   TGateErrors extends ReadonlyArray<AnyRouteError>,
   TRouteErrors extends ReadonlyArray<AnyRouteError>,
   TContext,
   RGate,
   RRoute,
+  TGatePath extends InputSchema | never = never,
+  TGateQuery extends InputSchema | never = never,
+  TGateHeaders extends InputSchema | never = never,
 > {
   readonly _tag: "GatedRoute";
   readonly method: TMethod;
@@ -118,11 +279,15 @@ export interface GatedRoute<
     TSuccess,
     readonly [...TGateErrors, ...TRouteErrors]
   >;
-  readonly gateHandler: () => Effect.Effect<
-    TContext,
+  readonly gateConfig: GateConfig<TGatePath, TGateQuery, TGateHeaders>;
+  readonly gateHandler: (
+    input: GateInput<TGatePath, TGateQuery, TGateHeaders>,
+  ) => Effect.Effect<
+    ServiceMap.ServiceMap<TContext>,
     ErrorsUnion<TGateErrors>,
     RGate
   >;
+  readonly gateAfter: AfterHooks<TContext, ErrorsUnion<TGateErrors>, RGate>;
   readonly routeHandler: (
     input: HandlerInput<TPath, TQuery, THeaders, TBody>,
   ) => Effect.Effect<
@@ -130,39 +295,184 @@ export interface GatedRoute<
     ErrorsUnion<TRouteErrors>,
     RRoute
   >;
-  readonly Context: ServiceMap.Service<TContext, TContext>;
 }
 
 /**
  * Any gate type for collections.
+ * Like `AnyGatedRoute`, this is structural so gates with typed inputs match.
  */
-export type AnyGate = Gate<
-  ReadonlyArray<AnyRouteError>,
-  unknown,
-  unknown,
-  AnyGatedRoute
->;
+export interface AnyGate {
+  readonly _tag: "Gate";
+  readonly errors: ReadonlyArray<AnyRouteError>;
+  readonly config: GateConfig<InputSchema, InputSchema, InputSchema>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly handler: (input: any) => Effect.Effect<any, any, any>;
+  readonly routes: ReadonlyArray<AnyGatedRoute>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly Context: ServiceMap.Service<any, any>;
+  readonly provide: (
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    input: any,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ) => Effect.Effect<ServiceMap.ServiceMap<any>, any, any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly after: AfterHooks<any, any, any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly add: (route: any) => AnyGate;
+}
 
 /**
  * Any gated route type for collections.
+ * This is a structural type that matches any GatedRoute, using loose handler
+ * types like `AnyRoute`.
  */
-export type AnyGatedRoute = GatedRoute<
-  HttpMethod,
-  PathInput,
-  Schema.Top,
-  Schema.Top,
-  Schema.Top,
-  Schema.Top,
-  Schema.Top,
-  ReadonlyArray<AnyRouteError>,
-  ReadonlyArray<AnyRouteError>,
-  any,
-  any,
-  any
+export interface AnyGatedRoute {
+  readonly _tag: "GatedRoute";
+  readonly method: HttpMethod;
+  readonly pattern: PathInput;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly config: RouteConfig<any, any, any, any, any, any>;
+  readonly gateConfig: GateConfig<InputSchema, InputSchema, InputSchema>;
+  readonly gateHandler: (
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    input: any,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ) => Effect.Effect<ServiceMap.ServiceMap<any>, any, any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly gateAfter: AfterHooks<any, any, any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly routeHandler: (input: any) => Effect.Effect<any, any, any>;
+  /** Middleware of the router the route was added from */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly middleware?: ReadonlyArray<Middleware<any>>;
+}
+
+/**
+ * Add checks to a struct schema.
+ */
+const withChecks = (
+  schema: InputSchema,
+  checks: SchemaAST.Checks | undefined,
+): InputSchema => (checks ? schema.check(...checks) : schema);
+
+/**
+ * Merge two struct schemas. The fields and annotations (such as an
+ * identifier) of `schema` win, and the checks of both still run.
+ */
+const mergeStructs = (base: InputSchema, schema: InputSchema): InputSchema => {
+  const merged = Schema.Struct({ ...base.fields, ...schema.fields });
+  const annotated = schema.ast.annotations
+    ? merged.annotate(schema.ast.annotations)
+    : merged;
+  return withChecks(withChecks(annotated, base.ast.checks), schema.ast.checks);
+};
+
+/**
+ * Merge a gate input schema into a route schema. Route fields win.
+ */
+const mergeSchema = (
+  route: AnyRoute,
+  location: "path" | "query" | "headers",
+  gateSchema: InputSchema | undefined,
+): Schema.Top | undefined => {
+  const routeSchema = route.config[location];
+  if (!gateSchema || !routeSchema) {
+    return routeSchema ?? gateSchema;
+  }
+  if (!(routeSchema instanceof Object && "fields" in routeSchema)) {
+    throw new Error(
+      `Cannot merge the gate's ${location} schema into route ${route.method} ${route.pattern}, whose ${location} schema is not a Struct`,
+    );
+  }
+  return mergeStructs(gateSchema, routeSchema as InputSchema);
+};
+
+/**
+ * Create a unique context service for a gate.
+ */
+const makeContext = () =>
+  ServiceMap.Service<unknown>(`funcho/Gate/${gateIdCounter++}`);
+
+/**
+ * Run a gate's own after hook, if it has one, with the services of its
+ * gates provided.
+ */
+const runAfter =
+  (
+    GateContext: ServiceMap.Service<unknown, unknown>,
+    after:
+      | ((outcome: GateOutcome<never>) => Effect.Effect<void, unknown, unknown>)
+      | undefined,
+  ): AnyGate["after"] =>
+  (exit, services, responseHeaders) =>
+    after
+      ? Effect.provideServices(
+          after({
+            exit,
+            context: ServiceMap.get(services, GateContext) as never,
+            responseHeaders,
+          }),
+          services,
+        )
+      : Effect.void;
+
+/**
+ * The parts of a gate, shared by the gates `add` returns.
+ */
+type GateParts = Pick<
+  AnyGate,
+  "errors" | "config" | "handler" | "Context" | "provide" | "after"
 >;
 
 /**
- * Create a new Gate with the given errors and handler.
+ * Build a gate from its parts and routes.
+ */
+const createGate = (
+  parts: GateParts,
+  routes: ReadonlyArray<AnyGatedRoute>,
+): AnyGate => ({
+  _tag: "Gate",
+  ...parts,
+  routes,
+  add: (route: AnyRoute) => {
+    const gatedRoute: AnyGatedRoute = {
+      _tag: "GatedRoute",
+      method: route.method,
+      pattern: route.pattern,
+      config: {
+        ...route.config,
+        path: mergeSchema(route, "path", parts.config.path),
+        query: mergeSchema(route, "query", parts.config.query),
+        headers: mergeSchema(route, "headers", parts.config.headers),
+        errors: [
+          ...parts.errors,
+          ...((route.config.errors ?? []) as ReadonlyArray<AnyRouteError>),
+        ],
+      },
+      gateConfig: parts.config,
+      gateHandler: parts.provide,
+      gateAfter: parts.after,
+      routeHandler: route.handler as (
+        input: HandlerInput<Schema.Top, Schema.Top, Schema.Top, Schema.Top>,
+      ) => Effect.Effect<unknown, unknown, unknown>,
+    };
+    return createGate(parts, [...routes, gatedRoute]);
+  },
+});
+
+/**
+ * Create a new Gate with the given errors, input schemas and handler.
+ *
+ * Input schemas (`path`, `query`, `headers`) are merged into the config of
+ * each route added to the gate, so they are validated, documented and part
+ * of the client request. Once all of the route's inputs are valid, the
+ * gate handler receives the values of its own schemas, before the route
+ * handler runs. Requests failing validation never reach the gate.
+ *
+ * The optional `after` hook runs once the route has run, whether it
+ * succeeded or failed, and can change the response headers. The route's
+ * result or error still makes the response, unless the hook fails with one
+ * of the gate's errors.
  *
  * @example
  * ```ts
@@ -186,65 +496,217 @@ export type AnyGatedRoute = GatedRoute<
  *     return user;
  *   }))
  * );
+ *
+ * // Gates can validate inputs of their own
+ * const OrgGate = Gate.make({
+ *   path: Schema.Struct({ orgId: Schema.String }),
+ *   errors: [ForbiddenError],
+ * }, Effect.fnUntraced(function* ({ path }) {
+ *   return { org: yield* Orgs.find(path.orgId) };
+ * }));
+ *
+ * const listMembers = OrgGate.add(
+ *   Route.get("/orgs/:orgId/members", { success: Members }, () => ...),
+ * );
+ *
+ * // Gates can post-process responses
+ * const SessionGate = Gate.make(
+ *   {},
+ *   () => Sessions.current,
+ *   ({ exit, context, responseHeaders }) =>
+ *     Exit.isSuccess(exit)
+ *       ? Effect.sync(() => {
+ *           responseHeaders.append("set-cookie", `session=${context.id}`);
+ *         })
+ *       : Effect.void,
+ * );
  * ```
  */
 export const make = <
   const TErrors extends ReadonlyArray<AnyRouteError> = readonly [],
   TContext = void,
   R = never,
+  TPath extends InputSchema = never,
+  TQuery extends InputSchema = never,
+  THeaders extends InputSchema = never,
+  RAfter = never,
 >(
-  config: {
+  config: GateConfig<TPath, TQuery, THeaders> & {
     readonly errors?: TErrors;
   },
-  handler: () => Effect.Effect<TContext, ErrorsUnion<TErrors>, R>,
-): Gate<TErrors, [TContext] extends [never] ? void : TContext, R, never> => {
-  // Create a unique context service for this gate
-  const gateId = gateIdCounter++;
-  const GateContext = ServiceMap.Service<TContext>(`funcho/Gate/${gateId}`);
-
-  const createGate = (
-    routes: ReadonlyArray<AnyGatedRoute>,
-  ): Gate<TErrors, TContext, R, any> =>
-    ({
-      _tag: "Gate",
-      errors: (config.errors ?? []) as TErrors,
-      handler,
-      routes,
-      Context: GateContext as unknown as ServiceMap.Service<TContext, TContext>,
-      add: (route: AnyRoute) => {
-        const gatedRoute: AnyGatedRoute = {
-          _tag: "GatedRoute",
-          method: route.method,
-          pattern: route.pattern,
-          config: {
-            ...route.config,
-            errors: [
-              ...((config.errors ?? []) as ReadonlyArray<AnyRouteError>),
-              ...((route.config.errors ?? []) as ReadonlyArray<AnyRouteError>),
-            ],
-          },
-          gateHandler: handler as () => Effect.Effect<
-            unknown,
-            unknown,
-            unknown
-          >,
-          routeHandler: route.handler as (
-            input: HandlerInput<Schema.Top, Schema.Top, Schema.Top, Schema.Top>,
-          ) => Effect.Effect<unknown, unknown, unknown>,
-          Context: GateContext as unknown as ServiceMap.Service<
-            unknown,
-            unknown
-          >,
-        };
-        return createGate([...routes, gatedRoute]);
+  handler: (
+    input: GateInput<TPath, TQuery, THeaders>,
+  ) => Effect.Effect<TContext, ErrorsUnion<TErrors>, R>,
+  after?: (
+    outcome: GateOutcome<TContext>,
+  ) => Effect.Effect<void, ErrorsUnion<TErrors>, RAfter>,
+): Gate<
+  TErrors,
+  [TContext] extends [never] ? void : TContext,
+  R | RAfter,
+  never,
+  TPath,
+  TQuery,
+  THeaders
+> => {
+  const GateContext = makeContext();
+  return createGate(
+    {
+      errors: config.errors ?? [],
+      config: {
+        ...(config.path ? { path: config.path } : {}),
+        ...(config.query ? { query: config.query } : {}),
+        ...(config.headers ? { headers: config.headers } : {}),
+        ...(config.security ? { security: config.security } : {}),
       },
-    }) as Gate<TErrors, TContext, R, any>;
-
-  return createGate([]) as Gate<
+      handler,
+      Context: GateContext,
+      provide: (input) =>
+        Effect.map(handler(input as never), (context) =>
+          ServiceMap.make(GateContext, context),
+        ),
+      after: runAfter(GateContext, after),
+    },
+    [],
+  ) as unknown as Gate<
     TErrors,
     [TContext] extends [never] ? void : TContext,
-    R,
-    never
+    R | RAfter,
+    never,
+    TPath,
+    TQuery,
+    THeaders
+  >;
+};
+
+/**
+ * Create a Gate that runs after a parent gate and can use its context.
+ *
+ * The parent's errors come first in the errors of the new gate, and its
+ * input schemas are merged with the new gate's own. Routes added to the new
+ * gate get the contexts of both gates, provided in order, and the new gate's
+ * requirements exclude the parent's context. The new gate's `after` hook
+ * runs before the parent's.
+ *
+ * @example
+ * ```ts
+ * const OrgGate = Gate.extend(AuthGate, {
+ *   path: Schema.Struct({ orgId: Schema.String }),
+ *   errors: [ForbiddenError],
+ * }, Effect.fnUntraced(function* ({ path }) {
+ *   const { user } = yield* AuthGate.Context;
+ *   return { org: yield* Orgs.findForMember(path.orgId, user) };
+ * }));
+ *
+ * const listMembers = OrgGate.add(
+ *   Route.get("/orgs/:orgId/members", { success: Members }, () => ...),
+ * );
+ * ```
+ */
+export const extend = <
+  const TParentErrors extends ReadonlyArray<AnyRouteError>,
+  TParentContext,
+  RParent,
+  TParentRoutes extends AnyGatedRoute,
+  TParentPath extends InputSchema,
+  TParentQuery extends InputSchema,
+  TParentHeaders extends InputSchema,
+  TParentParents,
+  const TErrors extends ReadonlyArray<AnyRouteError> = readonly [],
+  TContext = void,
+  R = never,
+  TPath extends InputSchema = never,
+  TQuery extends InputSchema = never,
+  THeaders extends InputSchema = never,
+  RAfter = never,
+>(
+  parent: Gate<
+    TParentErrors,
+    TParentContext,
+    RParent,
+    TParentRoutes,
+    TParentPath,
+    TParentQuery,
+    TParentHeaders,
+    TParentParents
+  >,
+  config: GateConfig<TPath, TQuery, THeaders> & {
+    readonly errors?: TErrors;
+  },
+  handler: (
+    input: GateInput<
+      MergeSchema<TPath, TParentPath>,
+      MergeSchema<TQuery, TParentQuery>,
+      MergeSchema<THeaders, TParentHeaders>
+    >,
+  ) => Effect.Effect<TContext, ErrorsUnion<TErrors>, R>,
+  after?: (
+    outcome: GateOutcome<TContext>,
+  ) => Effect.Effect<void, ErrorsUnion<TErrors>, RAfter>,
+): Gate<
+  readonly [...TParentErrors, ...TErrors],
+  [TContext] extends [never] ? void : TContext,
+  RParent | Exclude<R | RAfter, TParentContext | TParentParents>,
+  never,
+  MergeSchema<TPath, TParentPath>,
+  MergeSchema<TQuery, TParentQuery>,
+  MergeSchema<THeaders, TParentHeaders>,
+  TParentContext | TParentParents
+> => {
+  const GateContext = makeContext();
+  const gateConfig: GateConfig<InputSchema, InputSchema, InputSchema> = {};
+  for (const location of ["path", "query", "headers"] as const) {
+    const parentSchema = parent.config[location] as InputSchema | undefined;
+    const schema = config[location] as InputSchema | undefined;
+    if (parentSchema || schema) {
+      Object.assign(gateConfig, {
+        [location]:
+          parentSchema && schema
+            ? mergeStructs(parentSchema, schema)
+            : (schema ?? parentSchema),
+      });
+    }
+  }
+  if (parent.config.security || config.security) {
+    Object.assign(gateConfig, {
+      security: { ...parent.config.security, ...config.security },
+    });
+  }
+  const anyParent = parent as unknown as AnyGate;
+
+  const runOwnAfter = runAfter(GateContext, after);
+
+  return createGate(
+    {
+      errors: [...anyParent.errors, ...(config.errors ?? [])],
+      config: gateConfig,
+      handler,
+      Context: GateContext,
+      provide: (input) =>
+        Effect.flatMap(anyParent.provide(input), (services) =>
+          handler(input as never).pipe(
+            Effect.provideServices(services),
+            Effect.map((context) =>
+              ServiceMap.add(services, GateContext, context),
+            ),
+          ),
+        ),
+      after: (exit, services, responseHeaders) =>
+        Effect.andThen(
+          runOwnAfter(exit, services, responseHeaders),
+          anyParent.after(exit, services, responseHeaders),
+        ),
+    },
+    [],
+  ) as unknown as Gate<
+    readonly [...TParentErrors, ...TErrors],
+    [TContext] extends [never] ? void : TContext,
+    RParent | Exclude<R | RAfter, TParentContext | TParentParents>,
+    never,
+    MergeSchema<TPath, TParentPath>,
+    MergeSchema<TQuery, TParentQuery>,
+    MergeSchema<THeaders, TParentHeaders>,
+    TParentContext | TParentParents
   >;
 };
 
@@ -1,30 +1,62 @@
-import { RoutePattern } from "@remix-run/route-pattern";
 import * as Cause from "effect/Cause";
+import * as Duration from "effect/Duration";
 import * as Effect from "effect/Effect";
 import * as Exit from "effect/Exit";
 import * as Layer from "effect/Layer";
+import * as ManagedRuntime from "effect/ManagedRuntime";
+import * as Metric from "effect/Metric";
+import * as Random from "effect/Random";
 import * as Schema from "effect/Schema";
+import * as SchemaIssue from "effect/SchemaIssue";
 import * as Stream from "effect/Stream";
 import { getContentType } from "./Annotations.js";
+import * as Cookies from "./Cookies.js";
 import {
   errorMatchesSchema,
   getStatusFromError,
   getStatusFromSchema,
+  getTimeoutErrorSchema,
   isRouteError,
   isTransformedSchema,
+  RequestValidationError,
 } from "./Error.js";
 import type { AnyGatedRoute } from "./Gate.js";
 import { isGatedRoute } from "./Gate.js";
 import * as Headers from "./Headers.js";
-import type { AnyRoute } from "./Route.js";
-import { getSuccessStatus, isStream } from "./Route.js";
-import type { AnyRouter, Routable } from "./Router.js";
+import * as Matcher from "./internal/matcher.js";
+import * as TraceContext from "./internal/traceContext.js";
+import * as Metrics from "./Metrics.js";
+import * as RequestContext from "./RequestContext.js";
+import type { AnyRoute, SuccessSchema } from "./Route.js";
+import {
+  getSuccessSchemas,
+  getSuccessStatus,
+  getTimeoutOptions,
+  isRespond,
+  isStream,
+} from "./Route.js";
+import type {
+  AnyRouter,
+  Middleware,
+  Requirements,
+  Routable,
+} from "./Router.js";
 
 /**
  * WinterCG-compliant fetch handler type.
  */
 export type FetchHandler = (request: Request) => Promise<Response>;
 
+/**
+ * A fetch handler running on a runtime built from a Layer.
+ */
+export interface ManagedFetchHandler extends FetchHandler {
+  /**
+   * Release the resources of the Layer.
+   */
+  readonly dispose: () => Promise<void>;
+}
+
 /**
  * Effect-based fetch handler type that preserves requirements.
  */
@@ -32,6 +64,31 @@ export type EffectFetchHandler<R> = (
   request: Request,
 ) => Effect.Effect<Response, never, R>;
 
+/**
+ * Options for access logging.
+ */
+export interface AccessLogOptions {
+  /**
+   * Headers to redact, in addition to `authorization`, `cookie` and
+   * `set-cookie`
+   */
+  readonly redactHeaders?: ReadonlyArray<string>;
+  /** Fraction of the requests to log, from 0 to 1 (defaults to 1) */
+  readonly sampleRate?: number;
+}
+
+/**
+ * Options for fetch handlers.
+ */
+export interface HandlerOptions {
+  /**
+   * Log each request, once handled, with `Effect.log`. The entry is
+   * annotated with the method, route pattern, status, duration, request
+   * id, user agent, error tag and headers of the request and response.
+   */
+  readonly accessLog?: boolean | AccessLogOptions;
+}
+
 /**
  * Merged route info for matching.
  */
@@ -41,14 +98,17 @@ interface MatchedRoute {
 }
 
 /**
- * Build a map of route patterns for efficient matching.
+ * Compiled matchers for each method.
  */
-const buildRouteMap = (
-  router: AnyRouter,
-): Map<string, Array<{ pattern: RoutePattern<string>; route: Routable }>> => {
+type RouteMap = Map<string, Matcher.Matcher<Routable>>;
+
+/**
+ * Build a map of route matchers for efficient matching.
+ */
+const buildRouteMap = (router: AnyRouter): RouteMap => {
   const methodMap = new Map<
     string,
-    Array<{ pattern: RoutePattern<string>; route: Routable }>
+    Array<{ pattern: string; value: Routable }>
   >();
 
   for (const route of router.routes) {
@@ -56,40 +116,76 @@ const buildRouteMap = (
     if (!methodMap.has(method)) {
       methodMap.set(method, []);
     }
-    const pattern = new RoutePattern(route.pattern);
-    methodMap.get(method)!.push({ pattern, route });
+    methodMap.get(method)!.push({ pattern: route.pattern, value: route });
   }
 
-  return methodMap;
+  return new Map(
+    Array.from(methodMap, ([method, entries]) => [
+      method,
+      Matcher.make(entries),
+    ]),
+  );
 };
 
 /**
  * Match a request to a route.
  */
 const matchRoute = (
-  routeMap: Map<
-    string,
-    Array<{ pattern: RoutePattern<string>; route: Routable }>
-  >,
+  routeMap: RouteMap,
   method: string,
   url: URL,
 ): MatchedRoute | null => {
-  const routes = routeMap.get(method);
-  if (!routes) return null;
-
-  for (const { pattern, route } of routes) {
-    const match = pattern.match(url);
-    if (match) {
-      return {
-        route,
-        params: match.params as Record<string, string | undefined>,
-      };
+  const match = routeMap.get(method)?.match(url);
+  return match ? { route: match.value, params: match.params } : null;
+};
+
+/**
+ * List the methods with a route matching the URL, in registration order.
+ * HEAD (for GET routes) and OPTIONS are answered automatically, so they are
+ * included as well.
+ */
+const allowedMethods = (routeMap: RouteMap, url: URL): Array<string> => {
+  const methods: Array<string> = [];
+  for (const [method, matcher] of routeMap) {
+    if (matcher.match(url)) {
+      methods.push(method);
     }
   }
-
-  return null;
+  if (methods.length === 0) {
+    return methods;
+  }
+  if (methods.includes("GET") && !methods.includes("HEAD")) {
+    methods.splice(methods.indexOf("GET") + 1, 0, "HEAD");
+  }
+  if (!methods.includes("OPTIONS")) {
+    methods.push("OPTIONS");
+  }
+  return methods;
 };
 
+/**
+ * Drop the body of a response to a HEAD request, keeping its headers.
+ * Unless the body is a stream, it is read to report its content-length.
+ */
+const withoutBody = (
+  response: Response,
+  measure: boolean,
+): Effect.Effect<Response> =>
+  Effect.gen(function* () {
+    const headers = new globalThis.Headers(response.headers);
+    if (measure && !headers.has("content-length")) {
+      const body = yield* Effect.promise(() => response.arrayBuffer());
+      headers.set("content-length", String(body.byteLength));
+    } else if (response.body) {
+      yield* Effect.promise(() => response.body!.cancel());
+    }
+    return new Response(null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  });
+
 /**
  * Parse query parameters from URL.
  */
@@ -108,13 +204,19 @@ const parseQuery = (url: URL): Record<string, string | string[]> => {
   return query;
 };
 
+/**
+ * Create a validation error for a body that could not be parsed.
+ */
+const bodyParseError = (message: string): RequestValidationError =>
+  new RequestValidationError({ location: "body", message, issues: [] });
+
 /**
  * Parse request body based on content type.
  */
 const parseBody = (
   request: Request,
   bodySchema: Schema.Top | undefined,
-): Effect.Effect<unknown, Error> => {
+): Effect.Effect<unknown, RequestValidationError> => {
   // If no body schema or method doesn't have body, return undefined
   if (!bodySchema || request.method === "GET" || request.method === "HEAD") {
     return Effect.succeed(undefined);
@@ -138,7 +240,7 @@ const parseBody = (
   if (contentType.includes("application/json")) {
     return Effect.tryPromise({
       try: () => request.json(),
-      catch: () => new Error("Failed to parse JSON body"),
+      catch: () => bodyParseError("Failed to parse JSON body"),
     });
   }
 
@@ -154,32 +256,107 @@ const parseBody = (
         }
         return result;
       },
-      catch: () => new Error("Failed to parse form body"),
+      catch: () => bodyParseError("Failed to parse form body"),
     });
   }
 
   // Default: try JSON
   return Effect.tryPromise({
     try: () => request.json(),
-    catch: () => new Error("Failed to parse body"),
+    catch: () => bodyParseError("Failed to parse body"),
   });
 };
 
+/**
+ * Formatter that flattens a Schema issue into messages with paths.
+ */
+const formatIssue = SchemaIssue.makeFormatterStandardSchemaV1();
+
 /**
  * Validate input against schema.
  */
 const validateInput = <A>(
   schema: Schema.Top | undefined,
   input: unknown,
-  name: string,
-): Effect.Effect<A, Error> => {
+  location: RequestValidationError["location"],
+): Effect.Effect<A, RequestValidationError> => {
   if (!schema) {
     return Effect.succeed(input as A);
   }
 
-  return Schema.decodeUnknownEffect(schema)(input).pipe(
-    Effect.catch(() => Effect.fail(new Error(`${name} validation failed`))),
-  ) as Effect.Effect<A, Error>;
+  return Schema.decodeUnknownEffect(schema)(input, { errors: "all" }).pipe(
+    Effect.mapError(
+      (error) =>
+        new RequestValidationError({
+          location,
+          message: `Invalid request ${location}`,
+          issues: formatIssue(error.issue).issues.map((issue) => ({
+            path: (issue.path ?? []).map((segment) => {
+              const key = typeof segment === "object" ? segment.key : segment;
+              return typeof key === "number" ? key : String(key);
+            }),
+            message: issue.message,
+          })),
+        }),
+    ),
+    Effect.withSpan("funcho.validate", {
+      attributes: { "funcho.validation.location": location },
+    }),
+  ) as Effect.Effect<A, RequestValidationError>;
+};
+
+/**
+ * Parse and validate the path, query, headers and body of a request.
+ */
+const decodeInput = (
+  config: Pick<Routable["config"], "path" | "query" | "headers" | "body">,
+  params: Record<string, string | undefined>,
+  url: URL,
+  request: Request,
+): Effect.Effect<
+  {
+    readonly path: unknown;
+    readonly query: unknown;
+    readonly headers: unknown;
+    readonly body: unknown;
+    readonly request: Request;
+  },
+  RequestValidationError
+> =>
+  Effect.gen(function* () {
+    const bodyResult = config.body
+      ? yield* Effect.withSpan(
+          parseBody(request, config.body),
+          "funcho.parse_body",
+        )
+      : undefined;
+    return {
+      path: yield* validateInput(config.path, params, "path"),
+      query: yield* validateInput(config.query, parseQuery(url), "query"),
+      headers: yield* validateInput(
+        config.headers,
+        Object.fromEntries(request.headers),
+        "headers",
+      ),
+      body: yield* validateInput(config.body, bodyResult, "body"),
+      request,
+    };
+  });
+
+/**
+ * Pick the success schema for a handler result. A `Route.respond` result
+ * selects a schema by status; otherwise the route must have a single one.
+ */
+const selectSuccessSchema = (
+  result: unknown,
+  success: SuccessSchema,
+): Schema.Top | undefined => {
+  if (isRespond(result)) {
+    return getSuccessSchemas(success).find(
+      (schema) => getSuccessStatus(schema) === result.status,
+    );
+  }
+  return Array.isArray(success) ? undefined : (success as Schema.Top);
 };
 
 /**
@@ -187,9 +364,19 @@ const validateInput = <A>(
  */
 const buildResponse = (
   result: unknown,
-  successSchema: Schema.Top,
+  success: SuccessSchema,
   responseHeaders: globalThis.Headers,
-): Effect.Effect<Response, Error> => {
+): Effect.Effect<Response> => {
+  const successSchema = selectSuccessSchema(result, success);
+  if (!successSchema) {
+    return Effect.die(
+      new Error(
+        isRespond(result)
+          ? `Handler responded with status ${result.status}, which matches none of the route's success schemas`
+          : "Handler must use Route.respond for routes with several success schemas",
+      ),
+    );
+  }
   const status = getSuccessStatus(successSchema);
 
   // Check if result is a wrapped object with body
@@ -237,15 +424,32 @@ const buildResponse = (
     );
   }
 
-  // Encode response body as JSON
-  const jsonBody = JSON.stringify(body);
-  responseHeaders.set("content-type", "application/json");
+  // Encode the body through the success schema's JSON codec, so values like
+  // dates and bigints get their JSON form. A handler whose result does not
+  // match its own success schema is a bug, so failures become defects.
+  // Cast to remove EncodingServices requirement, as in buildErrorResponse
+  const encodeEffect = Schema.encodeEffect(Schema.toCodecJson(successSchema))(
+    body,
+  ) as Effect.Effect<unknown, Schema.SchemaError>;
 
-  return Effect.succeed(
-    new Response(jsonBody, {
-      status,
-      statusText,
-      headers: responseHeaders,
+  return encodeEffect.pipe(
+    Effect.mapError(
+      (error) =>
+        new Error(`Failed to encode success response: ${error.message}`, {
+          cause: error,
+        }),
+    ),
+    Effect.orDie,
+    Effect.map((encoded) => {
+      // Serialize response body, as JSON unless the schema declares a content type
+      const contentType = getContentType(successSchema) ?? "application/json";
+      responseHeaders.set("content-type", contentType);
+
+      return serializedResponse(serializeBody(encoded, contentType), {
+        status,
+        statusText,
+        headers: responseHeaders,
+      });
     }),
   );
 };
@@ -270,7 +474,7 @@ const serializeBody = (
   encoded: unknown,
   contentType: string,
 ): string | Uint8Array => {
-  if (contentType === "text/plain" && typeof encoded === "string") {
+  if (contentType.startsWith("text/") && typeof encoded === "string") {
     return encoded;
   }
   if (
@@ -283,6 +487,44 @@ const serializeBody = (
   return JSON.stringify(encoded);
 };
 
+/**
+ * Sizes of the serialized bodies of the responses built here, for the
+ * response size metric.
+ */
+const bodySizes = new WeakMap<Response, number>();
+
+/**
+ * Create a response with a serialized body, remembering its size.
+ */
+const serializedResponse = (
+  body: string | Uint8Array,
+  init: ResponseInit,
+): Response => {
+  const response = new Response(body, init);
+  bodySizes.set(
+    response,
+    typeof body === "string"
+      ? new TextEncoder().encode(body).byteLength
+      : body.byteLength,
+  );
+  return response;
+};
+
+/**
+ * The size of a response body, or undefined for a body of unknown size,
+ * such as a stream or a body replaced by middleware.
+ */
+const bodySize = (response: Response): number | undefined => {
+  const contentLength = response.headers.get("content-length");
+  if (contentLength !== null) {
+    return Number(contentLength);
+  }
+  if (response.body === null) {
+    return 0;
+  }
+  return bodySizes.get(response);
+};
+
 /**
  * Build error response with optional schema transformation.
  *
@@ -355,7 +597,7 @@ const buildErrorResponse = (
     responseHeaders.set("content-type", contentType);
     const body = serializeBody(encoded, contentType);
 
-    return new Response(body, {
+    return serializedResponse(body, {
       status,
       headers: responseHeaders,
     });
@@ -365,132 +607,333 @@ const buildErrorResponse = (
  * Handle a single request.
  */
 const handleRequest = (
-  routeMap: Map<
-    string,
-    Array<{ pattern: RoutePattern<string>; route: Routable }>
-  >,
+  routeMap: RouteMap,
+  validationError: Schema.Top,
   request: Request,
+  outcome: Outcome,
 ): Effect.Effect<Response, never, unknown> =>
   Effect.gen(function* () {
     const url = new URL(request.url);
     const method = request.method;
 
+    // Answer HEAD with the GET route, unless a HEAD route overrides it
+    if (method === "HEAD" && !matchRoute(routeMap, "HEAD", url)) {
+      const get = matchRoute(routeMap, "GET", url);
+      if (get) {
+        const response = yield* handleRequest(
+          routeMap,
+          validationError,
+          new Request(request, { method: "GET" }),
+          outcome,
+        );
+        const streaming = getSuccessSchemas(get.route.config.success).some(
+          isStream,
+        );
+        return yield* withoutBody(response, !streaming);
+      }
+    }
+
     // Match route
     const matched = matchRoute(routeMap, method, url);
     if (!matched) {
-      return new Response(
-        JSON.stringify({ error: { _tag: "NotFound", path: url.pathname } }),
-        {
-          status: 404,
-          headers: { "content-type": "application/json" },
-        },
+      return yield* observe(
+        request,
+        url,
+        undefined,
+        outcome,
+        Effect.sync(() => unmatchedResponse(routeMap, method, url)),
       );
     }
 
-    const { route, params } = matched;
+    // Middleware of the router the route came from wraps the route alone
+    outcome.route = matched.route;
+    return yield* observe(
+      request,
+      url,
+      matched.route,
+      outcome,
+      applyMiddleware(
+        matched.route.middleware ?? [],
+        request,
+        handleRoute(matched, validationError, url, request, outcome).pipe(
+          // Defects raised while building the response, such as a success
+          // body that fails to encode, become a 500 before middleware sees it
+          Effect.catchCause((cause) =>
+            Effect.sync(() => {
+              outcome.errorType = "InternalServerError";
+              return internalServerError(cause);
+            }),
+          ),
+        ),
+      ).pipe(
+        // Defects raised by the middleware itself become a 500 as well
+        Effect.catchCause((cause) =>
+          Effect.sync(() => {
+            outcome.errorType = "InternalServerError";
+            return internalServerError(cause);
+          }),
+        ),
+      ),
+    );
+  }).pipe(
+    // Remaining defects, such as failures to read a HEAD response's body,
+    // become a 500
+    Effect.catchCause((cause) => Effect.succeed(internalServerError(cause))),
+  );
+
+/**
+ * Answer a request matching no route: OPTIONS and 405 for paths that exist
+ * under other methods, 404 otherwise.
+ */
+const unmatchedResponse = (
+  routeMap: RouteMap,
+  method: string,
+  url: URL,
+): Response => {
+  const allow = allowedMethods(routeMap, url);
 
-    // Create headers service
-    const { service: headersService, getResponseHeaders } = Headers.make(
-      request.headers,
+  // Answer OPTIONS with the allowed methods, unless an OPTIONS route
+  // overrides it
+  if (method === "OPTIONS" && allow.length > 0) {
+    return new Response(null, {
+      status: 204,
+      headers: { allow: allow.join(", ") },
+    });
+  }
+
+  // The path exists under other methods
+  if (allow.length > 0) {
+    return serializedResponse(
+      JSON.stringify({
+        error: { _tag: "MethodNotAllowed", method, allow },
+      }),
+      {
+        status: 405,
+        headers: {
+          allow: allow.join(", "),
+          "content-type": "application/json",
+        },
+      },
     );
-    const headersLayer = Layer.succeed(Headers.Headers, headersService);
+  }
 
-    // Parse query
-    const query = parseQuery(url);
+  return serializedResponse(
+    JSON.stringify({ error: { _tag: "NotFound", path: url.pathname } }),
+    {
+      status: 404,
+      headers: { "content-type": "application/json" },
+    },
+  );
+};
 
-    // Build handler effect
-    let handlerEffect: Effect.Effect<unknown, unknown, unknown>;
+/**
+ * What handling reports about a request for its span, metrics and access
+ * log.
+ */
+interface Outcome {
+  /** The id of the request, shared with the RequestContext service */
+  readonly requestId: string;
+  /**
+   * The method of the request as received, which HEAD requests answered by
+   * a GET route keep
+   */
+  readonly method: string;
+  /** The route the request matched, if any */
+  route: Routable | undefined;
+  /** The tag of the error the request failed with, if any */
+  errorType: string | undefined;
+}
 
-    if (isGatedRoute(route)) {
-      // Gated route: run gate handler first, then route handler
-      const gatedRoute = route as AnyGatedRoute;
+/**
+ * Run a request handler in a server span named after the matched route
+ * (e.g. `GET /users/:id`), with HTTP semantic convention attributes, and
+ * record the request metrics. The span continues the trace of the
+ * request's `traceparent` header, if any.
+ */
+const observe = (
+  request: Request,
+  url: URL,
+  route: Routable | undefined,
+  outcome: Outcome,
+  handler: Effect.Effect<Response, never, unknown>,
+): Effect.Effect<Response, never, unknown> => {
+  const parent = TraceContext.parseTraceparent(
+    request.headers.get("traceparent"),
+  );
+  // Tag metrics with the route pattern rather than the raw path, to keep
+  // their cardinality bounded
+  const routeAttributes = {
+    method: outcome.method,
+    ...(route ? { route: route.pattern } : {}),
+  };
+  const active = Metric.withAttributes(Metrics.activeRequests, routeAttributes);
 
-      // Parse body
-      const bodyResult = yield* parseBody(request, gatedRoute.config.body);
+  const traced = Effect.gen(function* () {
+    const [duration, response] = yield* Effect.timed(handler);
+    yield* Effect.annotateCurrentSpan({
+      "http.response.status_code": response.status,
+      ...(outcome.errorType ? { "error.type": outcome.errorType } : {}),
+    });
 
-      // Validate inputs
-      const validatedPath = yield* validateInput(
-        gatedRoute.config.path,
-        params,
-        "path",
-      );
-      const validatedQuery = yield* validateInput(
-        gatedRoute.config.query,
-        query,
-        "query",
-      );
-      const validatedHeaders = yield* validateInput(
-        gatedRoute.config.headers,
-        Object.fromEntries(request.headers),
-        "headers",
-      );
-      const validatedBody = yield* validateInput(
-        gatedRoute.config.body,
-        bodyResult,
-        "body",
+    const attributes = {
+      ...routeAttributes,
+      status_class: `${Math.floor(response.status / 100)}xx`,
+      ...(outcome.errorType ? { error_type: outcome.errorType } : {}),
+    };
+    yield* Metric.update(
+      Metric.withAttributes(Metrics.requests, attributes),
+      1,
+    );
+    yield* Metric.update(
+      Metric.withAttributes(Metrics.requestDuration, attributes),
+      Duration.toSeconds(duration),
+    );
+    const size = bodySize(response);
+    if (size !== undefined) {
+      yield* Metric.update(
+        Metric.withAttributes(Metrics.responseSize, attributes),
+        size,
       );
+    }
+    return response;
+  }).pipe(
+    Effect.withSpan(
+      route ? `${outcome.method} ${route.pattern}` : outcome.method,
+      {
+        kind: "server",
+        parent,
+        attributes: {
+          "http.request.method": outcome.method,
+          ...(route ? { "http.route": route.pattern } : {}),
+          "url.path": url.pathname,
+          "url.scheme": url.protocol.slice(0, -1),
+          "server.address": url.hostname,
+        },
+      },
+    ),
+  );
+  const tracked = Effect.andThen(
+    Metric.modify(active, 1),
+    Effect.ensuring(traced, Metric.modify(active, -1)),
+  );
 
-      const input = {
-        path: validatedPath,
-        query: validatedQuery,
-        headers: validatedHeaders,
-        body: validatedBody,
-        request,
-      };
-
-      handlerEffect = Effect.gen(function* () {
-        // Run gate handler to get context
-        const context = yield* gatedRoute.gateHandler();
-        // Provide context to route handler
-        return yield* Effect.provideService(
-          gatedRoute.routeHandler(input as never),
-          gatedRoute.Context,
-          context,
-        );
-      });
-    } else {
-      // Regular route
-      const regularRoute = route as AnyRoute;
+  // Forward the caller's tracestate along with its trace
+  const traceState = request.headers.get("tracestate");
+  return parent && traceState
+    ? Effect.provideService(tracked, TraceContext.TraceState, traceState)
+    : tracked;
+};
 
-      // Parse body
-      const bodyResult = yield* parseBody(request, regularRoute.config.body);
+/**
+ * Handle a request matched to a route: validate inputs, run the gate and
+ * route handlers, and build the response.
+ */
+const handleRoute = (
+  { route, params }: MatchedRoute,
+  validationError: Schema.Top,
+  url: URL,
+  request: Request,
+  outcome: Outcome,
+): Effect.Effect<Response, never, unknown> =>
+  Effect.gen(function* () {
+    // Create the services describing the request
+    const { service: headersService, getResponseHeaders } = Headers.make(
+      request.headers,
+    );
+    const requestLayer = Layer.mergeAll(
+      Layer.succeed(Headers.Headers, headersService),
+      Layer.succeed(Cookies.Cookies, Cookies.make(headersService)),
+      Layer.succeed(
+        RequestContext.RequestContext,
+        RequestContext.make(request, url, route, params, outcome.requestId),
+      ),
+    );
 
-      // Validate inputs
-      const validatedPath = yield* validateInput(
-        regularRoute.config.path,
-        params,
-        "path",
-      );
-      const validatedQuery = yield* validateInput(
-        regularRoute.config.query,
-        query,
-        "query",
-      );
-      const validatedHeaders = yield* validateInput(
-        regularRoute.config.headers,
-        Object.fromEntries(request.headers),
-        "headers",
-      );
-      const validatedBody = yield* validateInput(
-        regularRoute.config.body,
-        bodyResult,
-        "body",
-      );
+    // Validation failures and timeouts are handled like any other route
+    // error
+    const timeout =
+      route.config.timeout !== undefined
+        ? getTimeoutOptions(route.config.timeout)
+        : undefined;
+    const timeoutError = getTimeoutErrorSchema(timeout?.status ?? 504);
+    const errorSchemas = [
+      ...(route.config.errors ?? []),
+      validationError,
+      ...(timeout ? [timeoutError] : []),
+    ];
 
-      const input = {
-        path: validatedPath,
-        query: validatedQuery,
-        headers: validatedHeaders,
-        body: validatedBody,
-        request,
-      };
+    // Interrupt the route handler when the route times out; validation and
+    // the gate's before and after hooks don't count towards the timeout
+    const withTimeout = <A, E, R>(
+      effect: Effect.Effect<A, E, R>,
+    ): Effect.Effect<unknown, unknown, unknown> =>
+      timeout
+        ? Effect.timeoutOrElse(effect, {
+            duration: timeout.duration,
+            onTimeout: () =>
+              Effect.gen(function* () {
+                if (timeout.retryAfter !== undefined) {
+                  const retryAfter = Duration.fromDurationInputUnsafe(
+                    timeout.retryAfter,
+                  );
+                  yield* Headers.set(
+                    "retry-after",
+                    String(Math.ceil(Duration.toSeconds(retryAfter))),
+                  );
+                }
+                return yield* new timeoutError({
+                  message: `Request timed out after ${Duration.format(
+                    Duration.fromDurationInputUnsafe(timeout.duration),
+                  )}`,
+                });
+              }),
+          })
+        : effect;
 
-      handlerEffect = regularRoute.handler(input as never);
-    }
+    // Build handler effect: validate inputs, then run the handler
+    const decoded = decodeInput(route.config, params, url, request);
+    const handlerEffect: Effect.Effect<unknown, unknown, unknown> =
+      isGatedRoute(route)
+        ? Effect.gen(function* () {
+            // Gated route: validate inputs, then run the gate handler on the
+            // values of its own schemas, then the route handler
+            const gatedRoute = route as AnyGatedRoute;
+            const input = yield* decoded;
+            const services = yield* Effect.withSpan(
+              Effect.flatMap(
+                decodeInput(gatedRoute.gateConfig, params, url, request),
+                ({ body: _, ...gateInput }) =>
+                  gatedRoute.gateHandler(gateInput),
+              ),
+              "funcho.gate",
+            );
+            // Provide the contexts of the gate (and the gates it extends) to
+            // the route handler
+            const exit = yield* Effect.exit(
+              withTimeout(
+                Effect.provideServices(
+                  gatedRoute.routeHandler(input as never),
+                  services,
+                ),
+              ),
+            );
+            // After hooks see the outcome and may change the response
+            // headers; the route's result still makes the response unless
+            // a hook fails
+            yield* Effect.withSpan(
+              gatedRoute.gateAfter(exit, services, getResponseHeaders()),
+              "funcho.gate_after",
+            );
+            return yield* exit;
+          })
+        : // Regular route
+          Effect.flatMap(decoded, (input) =>
+            withTimeout((route as AnyRoute).handler(input)),
+          );
 
-    // Provide headers service and run handler
+    // Provide the request services and run handler
     const result = yield* Effect.exit(
-      Effect.provide(handlerEffect, headersLayer),
+      Effect.provide(handlerEffect, requestLayer),
     );
     const responseHeaders = getResponseHeaders();
 
@@ -501,58 +944,199 @@ const handleRequest = (
       if (failures.length > 0) {
         const failure = failures[0]!;
         if (Cause.failureIsFail(failure)) {
-          return yield* buildErrorResponse(
-            failure.error,
-            route.config.errors,
-            responseHeaders,
+          outcome.errorType = errorType(failure.error);
+          return yield* Effect.withSpan(
+            buildErrorResponse(failure.error, errorSchemas, responseHeaders),
+            "funcho.encode_response",
           );
         }
       }
       // Unexpected error (die, interrupt)
-      return yield* buildErrorResponse(
-        new Error("Internal server error"),
-        route.config.errors,
-        responseHeaders,
+      outcome.errorType = "InternalServerError";
+      return yield* Effect.withSpan(
+        buildErrorResponse(
+          new Error("Internal server error"),
+          errorSchemas,
+          responseHeaders,
+        ),
+        "funcho.encode_response",
       );
     }
 
     // Build success response
-    return yield* buildResponse(
-      result.value,
-      route.config.success,
-      responseHeaders,
+    return yield* Effect.withSpan(
+      buildResponse(result.value, route.config.success, responseHeaders),
+      "funcho.encode_response",
     );
-  }).pipe(
-    Effect.catch((_: unknown) =>
-      Effect.succeed(
-        new Response(
-          JSON.stringify({
-            error: { _tag: "InternalServerError", message: String(_) },
-          }),
-          {
-            status: 500,
-            headers: { "content-type": "application/json" },
-          },
-        ),
-      ),
-    ),
+  });
+
+/**
+ * The error type reported in spans and metrics for a route error: its tag, or its
+ * constructor name for untagged errors.
+ */
+const errorType = (error: unknown): string => {
+  if (typeof error === "object" && error !== null) {
+    if ("_tag" in error && typeof error._tag === "string") {
+      return error._tag;
+    }
+    return error.constructor.name;
+  }
+  return typeof error;
+};
+
+/**
+ * Build a 500 response for a defect.
+ */
+const internalServerError = (cause: Cause.Cause<unknown>): Response =>
+  serializedResponse(
+    JSON.stringify({
+      error: {
+        _tag: "InternalServerError",
+        message: String(Cause.squash(cause)),
+      },
+    }),
+    {
+      status: 500,
+      headers: { "content-type": "application/json" },
+    },
   );
 
 /**
- * Convert a Router to an Effect-based fetch handler.
+ * Headers always redacted from access logs.
+ */
+const redactedHeaders = ["authorization", "cookie", "set-cookie"];
+
+/**
+ * Copy headers for a log entry, redacting sensitive ones.
+ */
+const logHeaders = (
+  headers: globalThis.Headers,
+  redact: ReadonlySet<string>,
+): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    entries[name] = redact.has(name) ? "[REDACTED]" : value;
+  }
+  return entries;
+};
+
+/**
+ * Log a handled request with `Effect.log`, if it is sampled.
+ */
+const logAccess = (
+  options: AccessLogOptions,
+  request: Request,
+  outcome: Outcome,
+  handler: Effect.Effect<Response, never, unknown>,
+): Effect.Effect<Response, never, unknown> => {
+  const redact = new Set([
+    ...redactedHeaders,
+    ...(options.redactHeaders ?? []).map((name) => name.toLowerCase()),
+  ]);
+  return Effect.gen(function* () {
+    const [duration, response] = yield* Effect.timed(handler);
+    if ((yield* Random.next) >= (options.sampleRate ?? 1)) {
+      return response;
+    }
+    const url = new URL(request.url);
+    const route = outcome.route?.pattern;
+    yield* Effect.log(
+      `${request.method} ${route ?? url.pathname} ${response.status}`,
+    ).pipe(
+      Effect.annotateLogs({
+        method: request.method,
+        path: url.pathname,
+        ...(route ? { route } : {}),
+        status: response.status,
+        durationMs: Duration.toMillis(duration),
+        requestId: outcome.requestId,
+        ...(request.headers.has("user-agent")
+          ? { userAgent: request.headers.get("user-agent") }
+          : {}),
+        ...(outcome.errorType ? { errorTag: outcome.errorType } : {}),
+        requestHeaders: logHeaders(request.headers, redact),
+        responseHeaders: logHeaders(response.headers, redact),
+      }),
+    );
+    return response;
+  });
+};
+
+/**
+ * Wrap a request handler in middleware, the first one outermost.
+ */
+const applyMiddleware = (
+  middleware: ReadonlyArray<Middleware<unknown>>,
+  request: Request,
+  handler: Effect.Effect<Response, never, unknown>,
+): Effect.Effect<Response, never, unknown> =>
+  middleware.reduceRight<Effect.Effect<Response, never, unknown>>(
+    (next, m) => m(next as Effect.Effect<Response>, request),
+    handler,
+  );
+
+/**
+ * Convert a Router to an Effect-based fetch handler, requiring the
+ * services of its routes, gates and middleware.
  */
 export const toFetchHandler = <R extends AnyRouter>(
   router: R,
-): EffectFetchHandler<never> => {
+  options: HandlerOptions = {},
+): EffectFetchHandler<Requirements<R>> => {
   const routeMap = buildRouteMap(router);
-  return (request: Request) =>
-    handleRequest(routeMap, request) as Effect.Effect<Response, never, never>;
+  const accessLog =
+    options.accessLog === true ? {} : options.accessLog || undefined;
+  return (request: Request) => {
+    const outcome: Outcome = {
+      requestId: RequestContext.requestIdFrom(request),
+      method: request.method,
+      route: undefined,
+      errorType: undefined,
+    };
+    const handler = applyMiddleware(
+      router.middleware,
+      request,
+      handleRequest(routeMap, router.validationError, request, outcome),
+    ).pipe(
+      // Defects raised by middleware become a 500
+      Effect.catchCause((cause) => Effect.succeed(internalServerError(cause))),
+    );
+    return (
+      accessLog ? logAccess(accessLog, request, outcome, handler) : handler
+    ) as Effect.Effect<Response, never, Requirements<R>>;
+  };
 };
 
 /**
  * Convert a Router to a simple fetch handler.
+ *
+ * Routers whose routes, gates or middleware require services take a Layer
+ * providing them. The Layer is built once, on the first request, and its
+ * resources are released by `dispose`.
+ *
+ * @example
+ * ```ts
+ * const handler = Handler.toFetch(router, Database.layer, {
+ *   accessLog: { redactHeaders: ["x-api-key"] },
+ * });
+ *
+ * Bun.serve({ fetch: handler });
+ *
+ * process.on("SIGTERM", () => handler.dispose());
+ * ```
  */
-export const toFetch = <R extends AnyRouter>(router: R): FetchHandler => {
-  const effectHandler = toFetchHandler(router);
-  return (request: Request) => Effect.runPromise(effectHandler(request));
+export const toFetch = <R extends AnyRouter, E = never>(
+  router: R,
+  ...[layer, options]: [Requirements<R>] extends [never]
+    ? [layer?: Layer.Layer<never, E>, options?: HandlerOptions]
+    : [layer: Layer.Layer<Requirements<R>, E>, options?: HandlerOptions]
+): ManagedFetchHandler => {
+  const effectHandler = toFetchHandler(router, options);
+  const runtime = ManagedRuntime.make(
+    (layer ?? Layer.empty) as Layer.Layer<Requirements<R>, E>,
+  );
+  return Object.assign(
+    (request: Request) => runtime.runPromise(effectHandler(request)),
+    { dispose: () => runtime.dispose() },
+  );
 };
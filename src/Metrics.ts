@@ -0,0 +1,228 @@
+import * as Effect from "effect/Effect";
+import * as Metric from "effect/Metric";
+import * as Schema from "effect/Schema";
+import type { PathInput } from "./Route.js";
+import * as Route from "./Route.js";
+
+/**
+ * Duration of the requests handled, in seconds.
+ *
+ * Like the other request metrics, it is tagged with the request `method`,
+ * the matched `route` pattern (absent for requests matching no route), the
+ * `status_class` of the response (e.g. "2xx") and, for failed requests, the
+ * `error_type` (the `_tag` of the error).
+ */
+export const requestDuration = Metric.histogram(
+  "http_server_request_duration_seconds",
+  {
+    description: "Duration of HTTP server requests",
+    boundaries: [
+      0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.25, 0.5, 0.75, 1, 2.5, 5, 7.5, 10,
+    ],
+  },
+);
+
+/**
+ * Number of requests handled.
+ */
+export const requests = Metric.counter("http_server_requests_total", {
+  description: "Number of HTTP server requests",
+  incremental: true,
+});
+
+/**
+ * Number of requests being handled, tagged with their `method` and `route`.
+ */
+export const activeRequests = Metric.gauge("http_server_active_requests", {
+  description: "Number of HTTP server requests being handled",
+});
+
+/**
+ * Size of the response bodies, in bytes. Streamed bodies, whose size is not
+ * known up front, are not recorded.
+ */
+export const responseSize = Metric.histogram(
+  "http_server_response_body_size_bytes",
+  {
+    description: "Size of HTTP server response bodies",
+    boundaries: Metric.exponentialBoundaries({
+      start: 100,
+      factor: 10,
+      count: 7,
+    }),
+  },
+);
+
+/**
+ * Escape a label value for the Prometheus text format.
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/**
+ * Turn a metric id into a valid Prometheus metric name.
+ */
+const metricName = (id: string): string =>
+  id.replace(/[^a-zA-Z0-9_:]/g, "_").replace(/^(?=\d)/, "_");
+
+/**
+ * Render the labels of a sample, with extra labels such as `le` last.
+ */
+const labels = (
+  attributes: Metric.Metric.AttributeSet | undefined,
+  extra: Record<string, string> = {},
+): string => {
+  const entries = Object.entries({ ...attributes, ...extra });
+  return entries.length > 0
+    ? `{${entries
+        .map(([key, value]) => `${metricName(key)}="${escapeLabel(value)}"`)
+        .join(",")}}`
+    : "";
+};
+
+/**
+ * Render a sample value.
+ */
+const sampleValue = (value: number | bigint | undefined): string => {
+  if (value === undefined || Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (value === Number.POSITIVE_INFINITY) {
+    return "+Inf";
+  }
+  if (value === Number.NEGATIVE_INFINITY) {
+    return "-Inf";
+  }
+  return String(value);
+};
+
+/**
+ * The Prometheus type of a metric.
+ */
+const prometheusType = (type: Metric.Metric.Type): string => {
+  switch (type) {
+    case "Counter":
+    case "Frequency":
+      return "counter";
+    case "Gauge":
+      return "gauge";
+    case "Histogram":
+      return "histogram";
+    case "Summary":
+      return "summary";
+  }
+};
+
+/**
+ * Render the samples of one series of a metric.
+ */
+const samples = (name: string, snapshot: Metric.Metric.Snapshot): string[] => {
+  const { attributes } = snapshot;
+  switch (snapshot.type) {
+    case "Counter":
+      return [
+        `${name}${labels(attributes)} ${sampleValue(snapshot.state.count)}`,
+      ];
+    case "Gauge":
+      return [
+        `${name}${labels(attributes)} ${sampleValue(snapshot.state.value)}`,
+      ];
+    case "Frequency":
+      return Array.from(
+        snapshot.state.occurrences,
+        ([key, count]) => `${name}${labels(attributes, { key })} ${count}`,
+      );
+    case "Histogram": {
+      // Boundaries built with Metric helpers already end with +Inf
+      const buckets = snapshot.state.buckets.filter(
+        ([boundary]) => boundary !== Number.POSITIVE_INFINITY,
+      );
+      return [
+        ...buckets.map(
+          ([boundary, count]) =>
+            `${name}_bucket${labels(attributes, { le: sampleValue(boundary) })} ${count}`,
+        ),
+        `${name}_bucket${labels(attributes, { le: "+Inf" })} ${snapshot.state.count}`,
+        `${name}_sum${labels(attributes)} ${sampleValue(snapshot.state.sum)}`,
+        `${name}_count${labels(attributes)} ${snapshot.state.count}`,
+      ];
+    }
+    case "Summary":
+      return [
+        ...snapshot.state.quantiles.map(
+          ([quantile, value]) =>
+            `${name}${labels(attributes, { quantile: String(quantile) })} ${sampleValue(value)}`,
+        ),
+        `${name}_sum${labels(attributes)} ${sampleValue(snapshot.state.sum)}`,
+        `${name}_count${labels(attributes)} ${snapshot.state.count}`,
+      ];
+  }
+};
+
+/**
+ * Render metric snapshots in the Prometheus text exposition format. Series
+ * of the same metric are grouped under a single `HELP` and `TYPE`.
+ */
+export const toPrometheus = (
+  snapshots: ReadonlyArray<Metric.Metric.Snapshot>,
+): string => {
+  const groups = new Map<string, Array<Metric.Metric.Snapshot>>();
+  for (const snapshot of snapshots) {
+    const name = metricName(snapshot.id);
+    const group = groups.get(name);
+    if (group) {
+      group.push(snapshot);
+    } else {
+      groups.set(name, [snapshot]);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const [name, group] of groups) {
+    const { description, type } = group[0]!;
+    if (description) {
+      lines.push(
+        `# HELP ${name} ${description.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      );
+    }
+    lines.push(`# TYPE ${name} ${prometheusType(type)}`);
+    for (const snapshot of group) {
+      lines.push(...samples(name, snapshot));
+    }
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+};
+
+/**
+ * All registered metrics, in the Prometheus text exposition format.
+ */
+export const prometheus: Effect.Effect<string> = Effect.map(
+  Metric.snapshot,
+  toPrometheus,
+);
+
+/**
+ * Create a route exposing all registered metrics, including the request
+ * metrics recorded by `Handler`, in the Prometheus text format.
+ *
+ * @example
+ * ```ts
+ * const router = Router.make()
+ *   .add(api)
+ *   .add(Metrics.route());
+ *
+ * // GET /metrics → http_server_requests_total{method="GET",route="/users/:id",status_class="2xx"} 42
+ * ```
+ */
+export const route = <const TPath extends PathInput = "/metrics">(
+  path: TPath = "/metrics" as TPath,
+) =>
+  Route.get(
+    path,
+    {
+      success: Schema.String.pipe(
+        Route.contentType("text/plain; version=0.0.4; charset=utf-8"),
+      ),
+    },
+    () => prometheus,
+  );
@@ -0,0 +1,510 @@
+import * as Schema from "effect/Schema";
+import { getContentType, getHeaders } from "./Annotations.js";
+import {
+  getStatusFromSchema,
+  getTagFromSchema,
+  getTimeoutErrorSchema,
+  isTransformedSchema,
+} from "./Error.js";
+import { isGatedRoute } from "./Gate.js";
+import type { HttpMethod } from "./Route.js";
+import {
+  getSuccessSchemas,
+  getSuccessStatus,
+  getTimeoutOptions,
+  hasInputs,
+  isStream,
+} from "./Route.js";
+import type { AnyRouter, Routable } from "./Router.js";
+
+/**
+ * A JSON Schema object as emitted in an OpenAPI 3.1 document.
+ */
+export interface JsonSchema {
+  readonly [key: string]: unknown;
+}
+
+/**
+ * API metadata for the `info` section of the document.
+ */
+export interface Info {
+  readonly title: string;
+  readonly version: string;
+  readonly description?: string;
+}
+
+/**
+ * A path, query or header parameter.
+ */
+export interface Parameter {
+  readonly name: string;
+  readonly in: "path" | "query" | "header";
+  readonly required: boolean;
+  readonly schema: JsonSchema;
+}
+
+/**
+ * A media type entry inside a request body or response.
+ */
+export interface MediaType {
+  readonly schema: JsonSchema;
+}
+
+/**
+ * An operation request body.
+ */
+export interface RequestBody {
+  readonly required: boolean;
+  readonly content: Record<string, MediaType>;
+}
+
+/**
+ * A response header.
+ */
+export interface Header {
+  readonly required: boolean;
+  readonly schema: JsonSchema;
+}
+
+/**
+ * A single response of an operation.
+ */
+export interface Response {
+  readonly description: string;
+  readonly headers?: Record<string, Header>;
+  readonly content?: Record<string, MediaType>;
+}
+
+/**
+ * A security scheme, declared by the gates that enforce it.
+ */
+export type SecurityScheme =
+  | {
+      readonly type: "http";
+      readonly scheme: "bearer" | "basic";
+      readonly bearerFormat?: string;
+      readonly description?: string;
+    }
+  | {
+      readonly type: "apiKey";
+      readonly name: string;
+      readonly in: "header" | "query" | "cookie";
+      readonly description?: string;
+    };
+
+/**
+ * Security schemes required by an operation, by name, with their scopes.
+ */
+export type SecurityRequirement = Record<string, ReadonlyArray<string>>;
+
+/**
+ * A single operation (method + path).
+ */
+export interface Operation {
+  readonly parameters?: ReadonlyArray<Parameter>;
+  readonly requestBody?: RequestBody;
+  readonly responses: Record<string, Response>;
+  readonly security?: ReadonlyArray<SecurityRequirement>;
+}
+
+/**
+ * All operations registered for a path, keyed by lowercase method.
+ */
+export type PathItem = {
+  [M in Lowercase<HttpMethod>]?: Operation;
+};
+
+/**
+ * An OpenAPI 3.1 document.
+ */
+export interface Document {
+  readonly openapi: "3.1.0";
+  readonly info: Info;
+  readonly paths: Record<string, PathItem>;
+  readonly components: {
+    readonly schemas: Record<string, JsonSchema>;
+    readonly securitySchemes?: Record<string, SecurityScheme>;
+  };
+}
+
+/**
+ * Shared definitions collected while converting schemas.
+ */
+type Definitions = Record<string, JsonSchema>;
+
+/**
+ * Rewrite JSON Schema `$defs` references to OpenAPI component references.
+ */
+const rewriteRefs = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(rewriteRefs);
+  }
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] =
+        key === "$ref" && typeof child === "string"
+          ? child.replace("#/$defs/", "#/components/schemas/")
+          : rewriteRefs(child);
+    }
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Convert a schema to JSON Schema, describing its encoded (wire) side.
+ * Named definitions are hoisted into `definitions`.
+ */
+const toJsonSchema = (
+  schema: Schema.Top,
+  definitions: Definitions,
+): JsonSchema => {
+  const document = Schema.toJsonSchemaDocument(schema);
+  for (const [name, definition] of Object.entries(document.definitions)) {
+    definitions[name] = rewriteRefs(definition) as JsonSchema;
+  }
+  return rewriteRefs(document.schema) as JsonSchema;
+};
+
+/**
+ * Resolve a top-level component reference, if any.
+ */
+const resolveRef = (
+  jsonSchema: JsonSchema,
+  definitions: Definitions,
+): JsonSchema => {
+  const ref = jsonSchema.$ref;
+  if (typeof ref === "string" && ref.startsWith("#/components/schemas/")) {
+    return definitions[ref.slice("#/components/schemas/".length)] ?? jsonSchema;
+  }
+  return jsonSchema;
+};
+
+/**
+ * Convert a route pattern to an OpenAPI path template.
+ * E.g., "/users/:id" → "/users/{id}", "/files/*path" → "/files/{path}"
+ *
+ * Optional groups have no OpenAPI equivalent, so their parentheses are dropped.
+ */
+const toPathTemplate = (pattern: string): string =>
+  pattern.replace(/[:*]([A-Za-z_$][\w$]*)/g, "{$1}").replace(/[()]/g, "");
+
+/**
+ * Extract parameter names from a route pattern.
+ */
+const patternParams = (pattern: string): ReadonlyArray<string> =>
+  Array.from(pattern.matchAll(/[:*]([A-Za-z_$][\w$]*)/g), (m) => m[1]!);
+
+/**
+ * Check if a schema describes an empty body.
+ */
+const isEmptySchema = (schema: Schema.Top): boolean =>
+  schema.ast._tag === "Void" || schema.ast._tag === "Undefined";
+
+/**
+ * Build parameters from an object schema.
+ */
+const toParameters = (
+  schema: Schema.Top | undefined,
+  location: Parameter["in"],
+  definitions: Definitions,
+): Array<Parameter> => {
+  if (!schema) return [];
+
+  const jsonSchema = resolveRef(toJsonSchema(schema, definitions), definitions);
+  const properties = (jsonSchema.properties ?? {}) as Record<
+    string,
+    JsonSchema
+  >;
+  const required = new Set((jsonSchema.required ?? []) as Array<string>);
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.has(name),
+    schema: propertySchema,
+  }));
+};
+
+/**
+ * Build response headers from a headers annotation.
+ */
+const toResponseHeaders = (
+  schema: Schema.Top,
+  definitions: Definitions,
+): Record<string, Header> | undefined => {
+  const headersSchema = getHeaders(schema);
+  if (!headersSchema) return undefined;
+
+  return Object.fromEntries(
+    toParameters(headersSchema, "header", definitions).map((parameter) => [
+      parameter.name,
+      { required: parameter.required, schema: parameter.schema },
+    ]),
+  );
+};
+
+/**
+ * Build the success response of an operation.
+ */
+const toSuccessResponse = (
+  schema: Schema.Top,
+  definitions: Definitions,
+): Response => {
+  const headers = toResponseHeaders(schema, definitions);
+  const base = { description: "Success", ...(headers ? { headers } : {}) };
+
+  if (isStream(schema)) {
+    const contentType = getContentType(schema) ?? "application/octet-stream";
+    return {
+      ...base,
+      content: {
+        [contentType]: { schema: { type: "string", format: "binary" } },
+      },
+    };
+  }
+
+  if (isEmptySchema(schema)) {
+    return base;
+  }
+
+  const contentType = getContentType(schema) ?? "application/json";
+  return {
+    ...base,
+    content: { [contentType]: { schema: toJsonSchema(schema, definitions) } },
+  };
+};
+
+/**
+ * Describe the response body of an error schema, mirroring how the
+ * handler serializes errors:
+ * - Transformed schemas are sent as encoded, as text when they encode to a string
+ * - Plain RouteError classes are wrapped in `{ error: ... }`
+ */
+const toErrorContent = (
+  schema: Schema.Top,
+  definitions: Definitions,
+): { contentType: string; schema: JsonSchema } => {
+  const jsonSchema = toJsonSchema(schema, definitions);
+
+  if (isTransformedSchema(schema)) {
+    const contentType =
+      getContentType(schema) ??
+      (jsonSchema.type === "string" ? "text/plain" : "application/json");
+    return { contentType, schema: jsonSchema };
+  }
+
+  return {
+    contentType: "application/json",
+    schema: {
+      type: "object",
+      properties: { error: jsonSchema },
+      required: ["error"],
+      additionalProperties: false,
+    },
+  };
+};
+
+/**
+ * Build error responses, grouping errors that share a status code.
+ */
+const toErrorResponses = (
+  errors: ReadonlyArray<Schema.Top>,
+  definitions: Definitions,
+): Record<string, Response> => {
+  const grouped = new Map<
+    number,
+    {
+      tags: Array<string>;
+      headers: Record<string, Header>;
+      content: Map<string, Array<JsonSchema>>;
+    }
+  >();
+
+  for (const schema of errors) {
+    const status = getStatusFromSchema(schema) ?? 500;
+    let group = grouped.get(status);
+    if (!group) {
+      group = { tags: [], headers: {}, content: new Map() };
+      grouped.set(status, group);
+    }
+
+    const tag = getTagFromSchema(schema);
+    if (tag && !group.tags.includes(tag)) {
+      group.tags.push(tag);
+    }
+    Object.assign(group.headers, toResponseHeaders(schema, definitions));
+
+    const { contentType, schema: bodySchema } = toErrorContent(
+      schema,
+      definitions,
+    );
+    const schemas = group.content.get(contentType) ?? [];
+    schemas.push(bodySchema);
+    group.content.set(contentType, schemas);
+  }
+
+  const responses: Record<string, Response> = {};
+  for (const [status, group] of grouped) {
+    const content: Record<string, MediaType> = {};
+    for (const [contentType, schemas] of group.content) {
+      content[contentType] = {
+        schema: schemas.length === 1 ? schemas[0]! : { anyOf: schemas },
+      };
+    }
+    responses[String(status)] = {
+      description: group.tags.length > 0 ? group.tags.join(" | ") : "Error",
+      ...(Object.keys(group.headers).length > 0
+        ? { headers: group.headers }
+        : {}),
+      content,
+    };
+  }
+  return responses;
+};
+
+/**
+ * Build the request body of an operation.
+ */
+const toRequestBody = (
+  schema: Schema.Top | undefined,
+  definitions: Definitions,
+): RequestBody | undefined => {
+  if (!schema) return undefined;
+
+  if (isStream(schema)) {
+    return {
+      required: true,
+      content: {
+        "application/octet-stream": {
+          schema: { type: "string", format: "binary" },
+        },
+      },
+    };
+  }
+
+  return {
+    required: true,
+    content: {
+      "application/json": { schema: toJsonSchema(schema, definitions) },
+    },
+  };
+};
+
+/**
+ * Build the operation for a single route.
+ */
+const toOperation = (
+  route: Routable,
+  validationError: Schema.Top,
+  definitions: Definitions,
+): Operation => {
+  const { config } = route;
+
+  // Path parameters declared by the pattern but missing from the path schema
+  // are still required by the URL, so describe them as plain strings.
+  const pathParameters = toParameters(config.path, "path", definitions);
+  for (const name of patternParams(route.pattern)) {
+    if (!pathParameters.some((parameter) => parameter.name === name)) {
+      pathParameters.push({
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      });
+    }
+  }
+
+  const parameters = [
+    ...pathParameters,
+    ...toParameters(config.query, "query", definitions),
+    ...toParameters(config.headers, "header", definitions),
+  ];
+  const requestBody = toRequestBody(config.body, definitions);
+
+  // Gated routes require every security scheme their gates enforce
+  const security = isGatedRoute(route) ? route.gateConfig.security : undefined;
+
+  // Routes with inputs can fail request validation, and routes with a
+  // timeout can time out
+  const timeout =
+    config.timeout !== undefined
+      ? getTimeoutOptions(config.timeout)
+      : undefined;
+  const errors = [
+    ...(config.errors ?? []),
+    ...(hasInputs(config) ? [validationError] : []),
+    ...(timeout ? [getTimeoutErrorSchema(timeout.status ?? 504)] : []),
+  ];
+
+  const responses: Record<string, Response> = {};
+  for (const schema of getSuccessSchemas(config.success)) {
+    responses[String(getSuccessStatus(schema))] = toSuccessResponse(
+      schema,
+      definitions,
+    );
+  }
+
+  return {
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      ...responses,
+      ...toErrorResponses(errors, definitions),
+    },
+    ...(security
+      ? {
+          security: [
+            Object.fromEntries(Object.keys(security).map((name) => [name, []])),
+          ],
+        }
+      : {}),
+  };
+};
+
+/**
+ * Generate an OpenAPI 3.1 document from a router.
+ *
+ * Parameters and request bodies come from each route's `path`, `query`,
+ * `headers` and `body` schemas. Responses come from the status, headers and
+ * content type annotations on each `success` schema and each entry in
+ * `errors`.
+ *
+ * @example
+ * ```ts
+ * const router = Router.make().add(getUser).add(createUser);
+ *
+ * const document = OpenApi.fromRouter(router, {
+ *   title: "Users API",
+ *   version: "1.0.0",
+ * });
+ * ```
+ */
+export const fromRouter = (router: AnyRouter, info: Info): Document => {
+  const definitions: Definitions = {};
+  const paths: Record<string, PathItem> = {};
+  const securitySchemes: Record<string, SecurityScheme> = {};
+
+  for (const route of router.routes) {
+    if (isGatedRoute(route)) {
+      Object.assign(securitySchemes, route.gateConfig.security);
+    }
+    const path = toPathTemplate(route.pattern);
+    const method = route.method.toLowerCase() as Lowercase<HttpMethod>;
+    paths[path] = {
+      ...paths[path],
+      [method]: toOperation(route, router.validationError, definitions),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      schemas: definitions,
+      ...(Object.keys(securitySchemes).length > 0 ? { securitySchemes } : {}),
+    },
+  };
+};
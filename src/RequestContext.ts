@@ -0,0 +1,84 @@
+import * as Effect from "effect/Effect";
+import * as ServiceMap from "effect/ServiceMap";
+import type { PathInput, RouteAnnotations } from "./Route.js";
+import type { Routable } from "./Router.js";
+
+/**
+ * The shape of the RequestContext service.
+ */
+export interface RequestContextService {
+  /** The raw request */
+  readonly request: Request;
+  /** The parsed request URL */
+  readonly url: URL;
+  /** The request method */
+  readonly method: string;
+  /** The pattern of the matched route, including router prefixes */
+  readonly pattern: PathInput;
+  /** The raw path params, before validation */
+  readonly params: Readonly<Record<string, string | undefined>>;
+  /** The request's `x-request-id` header, or a generated id */
+  readonly requestId: string;
+  /** The annotations of the matched route */
+  readonly annotations: RouteAnnotations;
+}
+
+/**
+ * Service describing the request being handled and the route it matched.
+ *
+ * This service is provided automatically to gates and route handlers, like
+ * `Headers`, so shared code such as logging, auth or metrics can read it
+ * without threading the request through by hand.
+ *
+ * @example
+ * ```ts
+ * const audit = Effect.fnUntraced(function* (action: string) {
+ *   const { requestId, method, pattern } = yield* RequestContext.RequestContext;
+ *   yield* Effect.log(`${requestId} ${method} ${pattern}: ${action}`);
+ * });
+ * ```
+ */
+export class RequestContext extends ServiceMap.Service<
+  RequestContext,
+  RequestContextService
+>()("funcho/RequestContext") {}
+
+/**
+ * Get the request id.
+ */
+export const requestId: Effect.Effect<string, never, RequestContext> =
+  RequestContext.use((c) => Effect.succeed(c.requestId));
+
+/**
+ * Get the annotations of the matched route.
+ */
+export const annotations: Effect.Effect<
+  RouteAnnotations,
+  never,
+  RequestContext
+> = RequestContext.use((c) => Effect.succeed(c.annotations));
+
+/**
+ * Get the id of a request: its `x-request-id` header, or a generated id.
+ */
+export const requestIdFrom = (request: Request): string =>
+  request.headers.get("x-request-id") ?? crypto.randomUUID();
+
+/**
+ * Create the RequestContext service for a request matched to a route.
+ */
+export const make = (
+  request: Request,
+  url: URL,
+  route: Routable,
+  params: Readonly<Record<string, string | undefined>>,
+  requestId: string = requestIdFrom(request),
+): RequestContextService => ({
+  request,
+  url,
+  method: request.method,
+  pattern: route.pattern,
+  params,
+  requestId,
+  annotations: route.config.annotations ?? {},
+});
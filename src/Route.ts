@@ -1,12 +1,19 @@
+import type * as Duration from "effect/Duration";
 import type * as Effect from "effect/Effect";
 import type * as Schema from "effect/Schema";
 import type * as StreamModule from "effect/Stream";
 import * as Annotations from "./Annotations.js";
+import type { TimeoutStatus } from "./Error.js";
+import type { Middleware } from "./Router.js";
 import { isStream, type Stream as StreamSchema } from "./Stream.js";
 
 // Re-export annotation helpers and stream marker
 export { contentType, headers, status, statusText } from "./Annotations.js";
-export { RouteError as Error } from "./Error.js";
+export {
+  RequestValidationError,
+  RouteError as Error,
+  TimeoutError,
+} from "./Error.js";
 export { Stream } from "./Stream.js";
 
 /**
@@ -26,6 +33,12 @@ export type HttpMethod =
  */
 export type PathInput = `/${string}`;
 
+/**
+ * Success response schema of a route: a single schema, or several schemas
+ * told apart by their `Route.status()` annotation.
+ */
+export type SuccessSchema = Schema.Top | ReadonlyArray<Schema.Top>;
+
 /**
  * Route configuration.
  */
@@ -34,7 +47,7 @@ export interface RouteConfig<
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   TErrors extends ReadonlyArray<Schema.Top> = readonly [],
 > {
   /** Schema for path parameters (e.g., { id: Schema.String }) */
@@ -45,7 +58,20 @@ export interface RouteConfig<
   readonly headers?: THeaders;
   /** Schema for request body (JSON, or Route.Stream for streaming) */
   readonly body?: TBody;
-  /** Success response schema, annotated with Route.status() */
+  /**
+   * Success response schema, annotated with Route.status().
+   *
+   * Pass an array of schemas with distinct statuses when the route can
+   * succeed in several ways. The handler then picks one with `Route.respond`.
+   *
+   * @example
+   * ```ts
+   * success: [
+   *   User.pipe(Route.status(200)),
+   *   User.pipe(Route.status(201)),
+   * ]
+   * ```
+   */
   readonly success: TSuccess;
   /**
    * Array of error schemas. These can be:
@@ -78,17 +104,95 @@ export interface RouteConfig<
    * ```
    */
   readonly errors?: TErrors;
+  /**
+   * Free-form metadata about the route, such as its owner or rate limit
+   * tier, available to gates and services through `RequestContext`.
+   */
+  readonly annotations?: RouteAnnotations;
+  /**
+   * How long the handler may run before it is interrupted and the request
+   * fails with a `TimeoutError`. Overrides the router's `timeout`.
+   *
+   * @example
+   * ```ts
+   * timeout: "5 seconds"
+   *
+   * // Answer 503 with a Retry-After header instead of 504
+   * timeout: { duration: "5 seconds", status: 503, retryAfter: "30 seconds" }
+   * ```
+   */
+  readonly timeout?: Timeout;
 }
 
+/**
+ * Free-form metadata attached to a route.
+ */
+export type RouteAnnotations = Readonly<Record<string, unknown>>;
+
+/**
+ * A timeout for route handlers: a duration, or options with the response
+ * to send when it elapses.
+ */
+export type Timeout = Duration.DurationInput | TimeoutOptions;
+
+/**
+ * Options for a route handler timeout.
+ */
+export interface TimeoutOptions {
+  /** How long the handler may run */
+  readonly duration: Duration.DurationInput;
+  /** Status of the `TimeoutError` response (defaults to 504) */
+  readonly status?: TimeoutStatus;
+  /** Value of the `Retry-After` header, rounded up to whole seconds */
+  readonly retryAfter?: Duration.DurationInput;
+}
+
+/**
+ * Type-level marker of timed routes.
+ */
+declare const TimedTypeId: unique symbol;
+
+/**
+ * A route with a timeout, which can fail with `TimeoutError`: one created
+ * with a `timeout`, or added to a router with a default `timeout`. The
+ * marker only exists in the type, keeping the route's config inferable.
+ */
+export type Timed<R> = R & { readonly [TimedTypeId]: true };
+
+/**
+ * A route, timed if it was created with a timeout.
+ */
+type WithTimeout<R, TTimeout> = [TTimeout] extends [undefined] ? R : Timed<R>;
+
+/**
+ * Get the options of a timeout given as a duration or as options.
+ */
+export const getTimeoutOptions = (timeout: Timeout): TimeoutOptions =>
+  typeof timeout === "object" && "duration" in timeout
+    ? timeout
+    : { duration: timeout };
+
+/**
+ * Check if a route has inputs (path, query, headers or body), which it
+ * validates: only such routes can fail with a validation error.
+ */
+export const hasInputs = (
+  config: Pick<RouteConfig<Schema.Top>, "path" | "query" | "headers" | "body">,
+): boolean =>
+  config.path !== undefined ||
+  config.query !== undefined ||
+  config.headers !== undefined ||
+  config.body !== undefined;
+
 /**
  * Extract the type from a schema, returning undefined for never.
  * Uses direct property access (not conditional inference) to preserve type inference
  * when used with Effect.fn.
  */
-type SchemaType<S extends Schema.Top | never> = S extends typeof StreamSchema
-  ? StreamModule.Stream<Uint8Array>
-  : [S] extends [never]
-    ? undefined
+type SchemaType<S extends Schema.Top | never> = [S] extends [never]
+  ? undefined
+  : S extends typeof StreamSchema
+    ? StreamModule.Stream<Uint8Array>
     : S["Type"];
 
 /**
@@ -107,9 +211,7 @@ export interface HandlerInput<
   /** Validated request headers */
   readonly headers: SchemaType<THeaders>;
   /** Request body - either parsed JSON or Stream<Uint8Array> */
-  readonly body: TBody extends typeof StreamSchema
-    ? StreamModule.Stream<Uint8Array>
-    : SchemaType<TBody>;
+  readonly body: SchemaType<TBody>;
   /** Raw request for escape hatch */
   readonly request: Request;
 }
@@ -121,23 +223,49 @@ export interface HandlerInput<
  * Extract the body type from a success schema.
  * If it's a Stream marker, return Stream<Uint8Array>.
  */
-type SuccessBodyType<TSuccess extends Schema.Top> =
+export type SuccessBodyType<TSuccess extends Schema.Top> =
   TSuccess extends typeof StreamSchema
     ? StreamModule.Stream<Uint8Array>
     : Schema.Schema.Type<TSuccess>;
 
 /**
- * Handler return type - simplified for single success status.
+ * A response for one of a route's success schemas, selected by status.
+ * Created with `Route.respond`.
+ */
+export interface Respond<TStatus extends number, TBody> {
+  readonly _tag: "Respond";
+  readonly status: TStatus;
+  readonly body: TBody;
+  readonly headers?: Record<string, string>;
+  readonly statusText?: string;
+}
+
+/**
+ * Union of the responses a handler can pick from several success schemas.
+ */
+type RespondUnion<S> = S extends Schema.Top
+  ? Respond<Annotations.StatusOf<S>, SuccessBodyType<S>>
+  : never;
+
+/**
+ * Handler return type.
+ * A single success schema takes the body directly or with metadata;
+ * several success schemas take a `Respond` for one of them.
  * If headers/statusText are annotated, they must be provided.
  */
-export type HandlerReturn<TSuccess extends Schema.Top> =
-  // For now, simple: return body directly or with metadata
-  | SuccessBodyType<TSuccess>
-  | {
-      readonly body: SuccessBodyType<TSuccess>;
-      readonly headers?: Record<string, string>;
-      readonly statusText?: string;
-    };
+export type HandlerReturn<TSuccess extends SuccessSchema> =
+  TSuccess extends ReadonlyArray<infer S>
+    ? RespondUnion<S>
+    : TSuccess extends Schema.Top
+      ?
+          | SuccessBodyType<TSuccess>
+          | {
+              readonly body: SuccessBodyType<TSuccess>;
+              readonly headers?: Record<string, string>;
+              readonly statusText?: string;
+            }
+          | RespondUnion<TSuccess>
+      : never;
 
 /**
  * Union of error types from error schemas.
@@ -156,7 +284,7 @@ export interface Route<
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
 > {
@@ -192,6 +320,9 @@ export interface AnyRoute {
   readonly config: RouteConfig<any, any, any, any, any, any>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   readonly handler: (input: any) => Effect.Effect<any, any, any>;
+  /** Middleware of the router the route was added from */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly middleware?: ReadonlyArray<Middleware<any>>;
 }
 
 /**
@@ -208,9 +339,10 @@ export const make = <
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   method: TMethod,
   pattern: TPattern,
@@ -221,6 +353,8 @@ export const make = <
     readonly body?: TBody;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -229,23 +363,28 @@ export const make = <
     readonly body: SchemaType<TBody>;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  TMethod,
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  TBody,
-  TSuccess,
-  TErrors,
-  R
-> => ({
-  _tag: "Route",
-  method,
-  pattern,
-  config,
-  handler,
-});
+): WithTimeout<
+  Route<
+    TMethod,
+    TPattern,
+    TPath,
+    TQuery,
+    THeaders,
+    TBody,
+    TSuccess,
+    TErrors,
+    R
+  >,
+  TTimeout
+> =>
+  // Timed routes only differ in their type
+  ({
+    _tag: "Route",
+    method,
+    pattern,
+    config,
+    handler,
+  }) as never;
 
 /**
  * Create a GET route.
@@ -268,9 +407,10 @@ export const get = <
   TPath extends Schema.Top | never = never,
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -279,6 +419,8 @@ export const get = <
     readonly headers?: THeaders;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -287,16 +429,9 @@ export const get = <
     readonly body: undefined;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "GET",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  never,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<"GET", TPattern, TPath, TQuery, THeaders, never, TSuccess, TErrors, R>,
+  TTimeout
 > => make("GET", pattern, config, handler);
 
 /**
@@ -319,9 +454,10 @@ export const post = <
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -331,6 +467,8 @@ export const post = <
     readonly body?: TBody;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -339,16 +477,9 @@ export const post = <
     readonly body: SchemaType<TBody>;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "POST",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  TBody,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<"POST", TPattern, TPath, TQuery, THeaders, TBody, TSuccess, TErrors, R>,
+  TTimeout
 > => make("POST", pattern, config, handler);
 
 /**
@@ -360,9 +491,10 @@ export const put = <
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -372,6 +504,8 @@ export const put = <
     readonly body?: TBody;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -380,16 +514,9 @@ export const put = <
     readonly body: SchemaType<TBody>;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "PUT",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  TBody,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<"PUT", TPattern, TPath, TQuery, THeaders, TBody, TSuccess, TErrors, R>,
+  TTimeout
 > => make("PUT", pattern, config, handler);
 
 /**
@@ -401,9 +528,10 @@ export const patch = <
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
   TBody extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -413,6 +541,8 @@ export const patch = <
     readonly body?: TBody;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -421,16 +551,19 @@ export const patch = <
     readonly body: SchemaType<TBody>;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "PATCH",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  TBody,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<
+    "PATCH",
+    TPattern,
+    TPath,
+    TQuery,
+    THeaders,
+    TBody,
+    TSuccess,
+    TErrors,
+    R
+  >,
+  TTimeout
 > => make("PATCH", pattern, config, handler);
 
 /**
@@ -442,9 +575,10 @@ export const del = <
   TPath extends Schema.Top | never = never,
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -453,6 +587,8 @@ export const del = <
     readonly headers?: THeaders;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -461,16 +597,19 @@ export const del = <
     readonly body: undefined;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "DELETE",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  never,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<
+    "DELETE",
+    TPattern,
+    TPath,
+    TQuery,
+    THeaders,
+    never,
+    TSuccess,
+    TErrors,
+    R
+  >,
+  TTimeout
 > => make("DELETE", pattern, config, handler);
 
 /**
@@ -481,9 +620,10 @@ export const options = <
   TPath extends Schema.Top | never = never,
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: Omit<
@@ -493,6 +633,8 @@ export const options = <
       readonly headers?: THeaders;
       readonly success: TSuccess;
       readonly errors?: TErrors;
+      readonly annotations?: RouteAnnotations;
+      readonly timeout?: TTimeout;
     },
     "body"
   >,
@@ -503,16 +645,19 @@ export const options = <
     readonly body: undefined;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "OPTIONS",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  never,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<
+    "OPTIONS",
+    TPattern,
+    TPath,
+    TQuery,
+    THeaders,
+    never,
+    TSuccess,
+    TErrors,
+    R
+  >,
+  TTimeout
 > => make("OPTIONS", pattern, config, handler);
 
 /**
@@ -523,9 +668,10 @@ export const head = <
   TPath extends Schema.Top | never = never,
   TQuery extends Schema.Top | never = never,
   THeaders extends Schema.Top | never = never,
-  TSuccess extends Schema.Top = typeof Schema.Void,
+  TSuccess extends SuccessSchema = typeof Schema.Void,
   const TErrors extends ReadonlyArray<Schema.Top> = readonly [],
   R = never,
+  TTimeout extends Timeout | undefined = undefined,
 >(
   pattern: TPattern,
   config: {
@@ -534,6 +680,8 @@ export const head = <
     readonly headers?: THeaders;
     readonly success: TSuccess;
     readonly errors?: TErrors;
+    readonly annotations?: RouteAnnotations;
+    readonly timeout?: TTimeout;
   },
   handler: (input: {
     readonly path: SchemaType<TPath>;
@@ -542,16 +690,9 @@ export const head = <
     readonly body: undefined;
     readonly request: Request;
   }) => Effect.Effect<HandlerReturn<TSuccess>, ErrorsUnion<TErrors>, R>,
-): Route<
-  "HEAD",
-  TPattern,
-  TPath,
-  TQuery,
-  THeaders,
-  never,
-  TSuccess,
-  TErrors,
-  R
+): WithTimeout<
+  Route<"HEAD", TPattern, TPath, TQuery, THeaders, never, TSuccess, TErrors, R>,
+  TTimeout
 > => make("HEAD", pattern, config, handler);
 
 /**
@@ -559,6 +700,59 @@ export const head = <
  */
 export { isStream };
 
+/**
+ * Respond with one of a route's success schemas. The response status comes
+ * from the schema's `Route.status()` annotation.
+ *
+ * @example
+ * ```ts
+ * const Created = User.pipe(Route.status(201));
+ * const Updated = User.pipe(Route.status(200));
+ *
+ * const upsertUser = Route.put("/users/:id", {
+ *   path: Schema.Struct({ id: Schema.String }),
+ *   body: UserInput,
+ *   success: [Updated, Created],
+ * }, Effect.fnUntraced(function* ({ path, body }) {
+ *   const existed = yield* UserRepo.exists(path.id);
+ *   const user = yield* UserRepo.save(path.id, body);
+ *   return existed
+ *     ? Route.respond(Updated, user)
+ *     : Route.respond(Created, user, { headers: { location: `/users/${path.id}` } });
+ * }));
+ * ```
+ */
+export const respond = <S extends Schema.Top>(
+  schema: S,
+  body: SuccessBodyType<S>,
+  options: {
+    readonly headers?: Record<string, string>;
+    readonly statusText?: string;
+  } = {},
+): Respond<Annotations.StatusOf<S>, SuccessBodyType<S>> => ({
+  _tag: "Respond",
+  status: getSuccessStatus(schema) as Annotations.StatusOf<S>,
+  body,
+  ...options,
+});
+
+/**
+ * Check if a handler result is a `Respond`.
+ */
+export const isRespond = (value: unknown): value is Respond<number, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  "_tag" in value &&
+  value._tag === "Respond";
+
+/**
+ * List the schemas of a route's success config.
+ */
+export const getSuccessSchemas = (
+  success: SuccessSchema,
+): ReadonlyArray<Schema.Top> =>
+  Array.isArray(success) ? success : [success as Schema.Top];
+
 /**
  * Get the status code from a success schema.
  */
@@ -1,36 +1,203 @@
-import type { AnyGate, AnyGatedRoute } from "./Gate.js";
-import type { AnyRoute } from "./Route.js";
+import type * as Effect from "effect/Effect";
+import type * as Schema from "effect/Schema";
+import type * as ServiceMap from "effect/ServiceMap";
+import type * as Cookies from "./Cookies.js";
+import { RequestValidationError } from "./Error.js";
+import type { AnyGate, AnyGatedRoute, GatedRoutes } from "./Gate.js";
+import type * as Headers from "./Headers.js";
+import * as Matcher from "./internal/matcher.js";
+import * as OpenApi from "./OpenApi.js";
+import type * as RequestContext from "./RequestContext.js";
+import type { AnyRoute, PathInput, Timed, Timeout } from "./Route.js";
 
 /**
  * A routable item - either a Route or a GatedRoute.
  */
 export type Routable = AnyRoute | AnyGatedRoute;
 
+/**
+ * A schema that encodes request validation failures.
+ * Either `RequestValidationError` itself or a schema transformed from it.
+ */
+export type ValidationErrorSchema = Schema.Top & {
+  readonly Type: { readonly _tag: RequestValidationError["_tag"] };
+};
+
+/**
+ * Router configuration.
+ */
+export interface RouterOptions {
+  /**
+   * Schema used to respond to requests that fail validation.
+   * Defaults to `RequestValidationError`.
+   *
+   * @example
+   * ```ts
+   * const ProblemValidationError = RequestValidationError.pipe(
+   *   Schema.encodeTo(ProblemDetails, {
+   *     encode: SchemaGetter.transform((e) => ({ title: e.message, status: 400 })),
+   *     decode: SchemaGetter.transform((p) =>
+   *       new RequestValidationError({ location: "body", message: p.title, issues: [] }),
+   *     ),
+   *   }),
+   *   Route.contentType("application/problem+json"),
+   * );
+   *
+   * const router = Router.make({ validationError: ProblemValidationError });
+   * ```
+   */
+  readonly validationError?: ValidationErrorSchema;
+  /**
+   * Default timeout of the routes added to this router that have none of
+   * their own. Routes of a router added to this one keep its default.
+   *
+   * @example
+   * ```ts
+   * const router = Router.make({ timeout: "30 seconds" })
+   *   .add(getUser) // times out after 30 seconds
+   *   .add(exportReport); // with `timeout: "5 minutes"`, keeps its own
+   * ```
+   */
+  readonly timeout?: Timeout;
+}
+
+/**
+ * Middleware wrapping the handling of a request.
+ *
+ * `next` runs the rest of the chain and never fails: route errors and
+ * defects, such as a success body failing to encode, have already been
+ * turned into error responses, including for the middleware of mounted
+ * routers. Middleware can run code around it, rewrite its response, or
+ * answer without calling it.
+ *
+ * @example
+ * ```ts
+ * const timing: Router.Middleware = (next) =>
+ *   Effect.gen(function* () {
+ *     const start = Date.now();
+ *     const response = yield* next;
+ *     response.headers.set("server-timing", `total;dur=${Date.now() - start}`);
+ *     return response;
+ *   });
+ * ```
+ */
+export type Middleware<R = never> = (
+  next: Effect.Effect<Response>,
+  request: Request,
+) => Effect.Effect<Response, never, R>;
+
 /**
  * A Router composes routes and gated routes.
+ *
+ * `TPrefix` is the prefix applied to routes added from now on,
+ * `RMiddleware` the requirements of its middleware, `TTimeout` the default
+ * timeout of routes added from now on, and `TValidationError` the schema
+ * of its validation failures.
  */
-export interface Router<Routes extends Routable = never> {
+export interface Router<
+  Routes extends Routable = never,
+  TPrefix extends Prefix = "",
+  RMiddleware = never,
+  TTimeout extends Timeout | undefined = undefined,
+  TValidationError extends
+    ValidationErrorSchema = typeof RequestValidationError,
+> {
   readonly _tag: "Router";
   readonly routes: ReadonlyArray<Routes>;
+  readonly validationError: TValidationError;
+  readonly timeout: TTimeout;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly middleware: ReadonlyArray<Middleware<any>>;
+
+  /**
+   * Wrap every request to this router in a middleware, including route
+   * matching, input validation and error responses. The first middleware
+   * added is the outermost.
+   *
+   * Middleware of a router added to another router with `add` or `mount`
+   * keeps wrapping that router's routes, inside the parent's middleware.
+   */
+  readonly use: <R>(
+    middleware: Middleware<R>,
+  ) => Router<Routes, TPrefix, RMiddleware | R, TTimeout, TValidationError>;
 
   /**
-   * Add a route to the router.
+   * Add a route, the routes of a gate, or the routes of another router.
+   *
+   * Throws a `RouteConflictError` if a new route has the same method as an
+   * existing one and a pattern matching the same requests, since it could
+   * never be reached. The same goes for a pattern whose optional groups
+   * cover all the requests of another pattern tried after it, such as
+   * `/docs(/:page)` and `/docs/:id`; other partial overlaps are allowed.
+   * Routes with literal patterns without optional groups are checked at
+   * compile time as well.
    */
-  readonly add: <R extends AnyRoute | AnyGate>(
-    routeOrGate: R,
+  readonly add: <R extends AnyRoute | AnyGate | AnyRouter>(
+    routeOrGate: HasConflicts<
+      Routes,
+      PrefixRoutes<AddedRoutes<R>, TPrefix>
+    > extends true
+      ? RouteConflictTypeError<
+          RouteConflicts<Routes, PrefixRoutes<AddedRoutes<R>, TPrefix>>
+        >
+      : R,
+  ) => Router<
+    Routes | TimeoutRoutes<PrefixRoutes<AddedRoutes<R>, TPrefix>, TTimeout>,
+    TPrefix,
+    RMiddleware | ExtractRouterMiddleware<R>,
+    TTimeout,
+    TValidationError
+  >;
+
+  /**
+   * Add the routes of another router under a prefix, keeping their types.
+   * Equivalent to `add(router.prefix(prefix))`.
+   *
+   * @example
+   * ```ts
+   * const router = Router.make()
+   *   .mount("/billing", billingRouter)
+   *   .mount("/users", usersRouter);
+   * ```
+   */
+  readonly mount: <P extends PathInput, R extends AnyRouter>(
+    prefix: P,
+    router: HasConflicts<
+      Routes,
+      PrefixRoutes<ExtractRouterRoutes<R>, `${TPrefix}${P}`>
+    > extends true
+      ? RouteConflictTypeError<
+          RouteConflicts<
+            Routes,
+            PrefixRoutes<ExtractRouterRoutes<R>, `${TPrefix}${P}`>
+          >
+        >
+      : R,
   ) => Router<
     | Routes
-    | (R extends AnyGate
-        ? ExtractGateRoutes<R>
-        : R extends AnyRoute
-          ? R
-          : never)
+    | TimeoutRoutes<
+        PrefixRoutes<ExtractRouterRoutes<R>, `${TPrefix}${P}`>,
+        TTimeout
+      >,
+    TPrefix,
+    RMiddleware | ExtractRouterMiddleware<R>,
+    TTimeout,
+    TValidationError
   >;
 
   /**
-   * Add a prefix to all routes in this router.
+   * Add a prefix to all routes in this router, including routes added
+   * afterwards.
    */
-  readonly prefix: (prefix: string) => Router<Routes>;
+  readonly prefix: <P extends PathInput>(
+    prefix: P,
+  ) => Router<
+    PrefixRoutes<Routes, P>,
+    `${P}${TPrefix}`,
+    RMiddleware,
+    TTimeout,
+    TValidationError
+  >;
 }
 
 /**
@@ -44,10 +211,245 @@ type ExtractGateRoutes<G extends AnyGate> = G extends {
     : never
   : never;
 
+/**
+ * Extract all routes from a Router.
+ */
+type ExtractRouterRoutes<R extends AnyRouter> =
+  R extends Router<
+    infer Routes,
+    Prefix,
+    unknown,
+    Timeout | undefined,
+    ValidationErrorSchema
+  >
+    ? Routes
+    : never;
+
+/**
+ * Extract the middleware requirements of a Router.
+ */
+type ExtractRouterMiddleware<R> =
+  R extends Router<
+    Routable,
+    Prefix,
+    infer RMiddleware,
+    Timeout | undefined,
+    ValidationErrorSchema
+  >
+    ? RMiddleware
+    : never;
+
+/**
+ * Services required by a route's handlers, minus the gate context, which
+ * the gate provides.
+ */
+type RouteRequirements<R> = R extends {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly handler: (input: any) => Effect.Effect<any, any, infer RRoute>;
+}
+  ? RRoute
+  : R extends {
+        readonly gateHandler: (
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          input: any,
+        ) => Effect.Effect<
+          ServiceMap.ServiceMap<infer TContext>,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          any,
+          infer RGate
+        >;
+        readonly routeHandler: (
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          input: any,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        ) => Effect.Effect<any, any, infer RRoute>;
+      }
+    ? RGate | Exclude<RRoute, TContext>
+    : never;
+
+/**
+ * Services a router needs to handle requests: the requirements of its
+ * routes, gates and middleware. `Headers`, `Cookies` and `RequestContext`
+ * are provided for each request, so they are not included.
+ *
+ * @example
+ * ```ts
+ * const router = Router.make().add(getUser); // getUser requires Database
+ *
+ * type R = Router.Requirements<typeof router>; // Database
+ *
+ * const handler = Handler.toFetch(router, Database.layer);
+ * ```
+ */
+export type Requirements<R extends AnyRouter> =
+  | Exclude<
+      RouteRequirements<ExtractRouterRoutes<R>>,
+      Headers.Headers | Cookies.Cookies | RequestContext.RequestContext
+    >
+  | ExtractRouterMiddleware<R>;
+
+/**
+ * Routes added by a route, gate or router.
+ */
+type AddedRoutes<R> = R extends AnyGate
+  ? ExtractGateRoutes<R>
+  : R extends AnyRouter
+    ? ExtractRouterRoutes<R>
+    : R extends AnyRoute
+      ? R
+      : never;
+
+/**
+ * Routes added to a router with a default timeout, which time out unless
+ * they have a timeout of their own.
+ */
+type TimeoutRoutes<Routes, TTimeout> = [TTimeout] extends [undefined]
+  ? Routes
+  : Routes extends Timed<unknown>
+    ? Routes
+    : Timed<Routes>;
+
+/**
+ * A route prefix, or "" for none.
+ */
+type Prefix = "" | PathInput;
+
+/**
+ * Prepend a prefix to the pattern of each route.
+ */
+type PrefixRoutes<Routes, TPrefix extends Prefix> = TPrefix extends ""
+  ? Routes
+  : Routes extends Routable
+    ? Omit<Routes, "pattern"> & {
+        readonly pattern: `${TPrefix}${Routes["pattern"]}`;
+      }
+    : never;
+
+/**
+ * Erase the param and wildcard names of a path segment, mirroring
+ * `signature` at runtime. Segments with params inside them are kept as-is.
+ */
+type SegmentSignature<S extends string> = S extends `${":" | "*"}${infer Name}`
+  ? Name extends `${string}${"." | "-" | "(" | ")" | "?" | ":" | "*"}${string}`
+    ? S
+    : S extends `:${string}`
+      ? ":"
+      : "*"
+  : S;
+
+/**
+ * Erase the param and wildcard names of a literal pattern.
+ */
+type PatternSignature<P extends string> =
+  P extends `${infer Segment}/${infer Rest}`
+    ? `${SegmentSignature<Segment>}/${PatternSignature<Rest>}`
+    : SegmentSignature<P>;
+
+/**
+ * The method and pattern signature of a route with a literal pattern.
+ */
+type RouteSignature<R> = R extends {
+  readonly method: infer M extends string;
+  readonly pattern: infer P extends string;
+}
+  ? PathInput extends P
+    ? never
+    : `${M} ${PatternSignature<P>}`
+  : never;
+
+/**
+ * Describe each new route that conflicts with an existing one.
+ */
+type RouteConflicts<Existing, New> = Existing extends Routable
+  ? New extends Routable
+    ? [RouteSignature<New>] extends [never]
+      ? never
+      : RouteSignature<New> extends RouteSignature<Existing>
+        ? `Route "${New["method"]} ${New["pattern"]}" conflicts with "${Existing["method"]} ${Existing["pattern"]}", which is already in the router`
+        : never
+    : never
+  : never;
+
+/**
+ * Whether new routes conflict with existing ones. The check cannot resolve
+ * for routes whose patterns are type parameters, as in generic helpers
+ * creating routes, and only a resolved conflict rejects the routes; they are
+ * still checked at runtime.
+ */
+type HasConflicts<Existing, New> = [RouteConflicts<Existing, New>] extends [
+  never,
+]
+  ? false
+  : true;
+
+/**
+ * Error type shown when adding a conflicting route.
+ */
+type RouteConflictTypeError<Message extends string> = {
+  readonly __error__: "RouteConflict";
+  readonly message: Message;
+};
+
+/**
+ * Thrown when a route conflicts with a route already in the router: same
+ * method, and a pattern matching all the requests of the other one first.
+ */
+export class RouteConflictError extends Error {
+  override readonly name = "RouteConflictError";
+
+  constructor(
+    /** The route being added */
+    readonly route: Routable,
+    /** The route already in the router */
+    readonly existing: Routable,
+    /** The route that would never be reached */
+    readonly unreachable: Routable = route,
+  ) {
+    super(
+      `Route ${route.method} ${route.pattern} conflicts with ${existing.method} ${existing.pattern}, which is already in the router. ${
+        unreachable === route
+          ? `Both match the same requests, so ${route.method} ${route.pattern}`
+          : `${route.method} ${route.pattern} matches all the requests of ${existing.method} ${existing.pattern} first, so ${existing.method} ${existing.pattern}`
+      } would never be reached.`,
+    );
+  }
+}
+
+/**
+ * Append routes, throwing on the first conflict.
+ */
+const appendRoutes = (
+  routes: ReadonlyArray<Routable>,
+  added: ReadonlyArray<Routable>,
+): ReadonlyArray<Routable> => {
+  const all = [...routes];
+  for (const route of added) {
+    for (const existing of all) {
+      if (existing.method !== route.method) {
+        continue;
+      }
+      if (Matcher.isShadowed(route.pattern, existing.pattern, true)) {
+        throw new RouteConflictError(route, existing);
+      }
+      if (Matcher.isShadowed(existing.pattern, route.pattern, false)) {
+        throw new RouteConflictError(route, existing, existing);
+      }
+    }
+    all.push(route);
+  }
+  return all;
+};
+
 /**
  * Any router type.
  */
-export type AnyRouter = Router<Routable>;
+export type AnyRouter = Router<
+  Routable,
+  Prefix,
+  unknown,
+  Timeout | undefined,
+  ValidationErrorSchema
+>;
 
 /**
  * Create a new empty Router.
@@ -62,56 +464,181 @@ export type AnyRouter = Router<Routable>;
  * const handler = Handler.toFetch(router);
  * ```
  */
-export const make = (): Router<never> => {
-  const createRouter = <Routes extends Routable>(
-    routes: ReadonlyArray<Routes>,
-    prefixValue: string = "",
-  ): Router<Routes> =>
-    ({
-      _tag: "Router",
-      routes,
-      add: (routeOrGate: AnyRoute | AnyGate): Router<Routable> => {
-        if (routeOrGate._tag === "Gate") {
-          // Extract routes from gate
-          const gate = routeOrGate as AnyGate;
-          const gateRoutes = gate.routes.map((r) => ({
-            ...r,
-            pattern: prefixValue
-              ? (`${prefixValue}${r.pattern}` as const)
-              : r.pattern,
-          }));
-          return createRouter(
-            [...routes, ...gateRoutes] as ReadonlyArray<Routable>,
-            prefixValue,
-          );
-        }
-
-        // Regular route
-        const route = routeOrGate as AnyRoute;
-        const prefixedRoute = prefixValue
-          ? {
-              ...route,
-              pattern: `${prefixValue}${route.pattern}` as const,
-            }
-          : route;
+export const make = <
+  TTimeout extends Timeout | undefined = undefined,
+  TValidationError extends
+    ValidationErrorSchema = typeof RequestValidationError,
+>(
+  options: RouterOptions & {
+    readonly timeout?: TTimeout;
+    readonly validationError?: TValidationError;
+  } = {},
+): Router<never, "", never, TTimeout, TValidationError> =>
+  createRouter(
+    options.validationError ?? RequestValidationError,
+    [],
+    "",
+    [],
+    options.timeout,
+  ) as Router<never, "", never, TTimeout, TValidationError>;
+
+/**
+ * Apply a gate to every route of a router, as if each route had been passed
+ * to the gate's `add`. The router's middleware is kept.
+ *
+ * Routes stay independent of the gate protecting them, and each one still
+ * has the gate's errors in its contract. Gates are not combined: to protect
+ * routes with two gates, create one with `Gate.extend`.
+ *
+ * @example
+ * ```ts
+ * const billingRouter = Router.make().add(listInvoices).add(getInvoice);
+ *
+ * const router = Router.make()
+ *   .add(health)
+ *   .mount("/billing", Router.gate(AuthGate, billingRouter));
+ * ```
+ */
+export const gate = <
+  G extends AnyGate,
+  R extends Router<
+    AnyRoute,
+    Prefix,
+    unknown,
+    Timeout | undefined,
+    ValidationErrorSchema
+  >,
+>(
+  gate: G,
+  router: R,
+): Router<
+  GatedRoutes<G, Extract<ExtractRouterRoutes<R>, AnyRoute>>,
+  "",
+  ExtractRouterMiddleware<R>,
+  R["timeout"],
+  R["validationError"]
+> => {
+  const routes = (router.routes as ReadonlyArray<Routable>).map((route) => {
+    if (!isRoute(route)) {
+      throw new Error(
+        `Cannot apply a gate to route ${route.method} ${route.pattern}, which already has one; use Gate.extend to combine gates`,
+      );
+    }
+    const gatedRoute = gate.add(route).routes.at(-1)!;
+    return route.middleware
+      ? { ...gatedRoute, middleware: route.middleware }
+      : gatedRoute;
+  });
+  return createRouter(
+    router.validationError,
+    routes,
+    "",
+    router.middleware,
+    router.timeout,
+  ) as never;
+};
+
+/**
+ * Give a route the router's default timeout, unless it has its own.
+ */
+const withTimeout = <R extends Routable>(
+  route: R,
+  timeout: Timeout | undefined,
+): R =>
+  timeout === undefined || route.config.timeout !== undefined
+    ? route
+    : { ...route, config: { ...route.config, timeout } };
+
+/**
+ * Build a router from its parts. `prefixValue` is applied to routes added
+ * from now on, and `timeout` to those without a timeout.
+ */
+const createRouter = (
+  validationError: ValidationErrorSchema,
+  routes: ReadonlyArray<Routable>,
+  prefixValue: string = "",
+  middleware: ReadonlyArray<Middleware<unknown>> = [],
+  timeout: Timeout | undefined = undefined,
+): AnyRouter =>
+  ({
+    _tag: "Router",
+    routes,
+    validationError,
+    timeout,
+    middleware,
+    use: (m: Middleware<unknown>) =>
+      createRouter(
+        validationError,
+        routes,
+        prefixValue,
+        [...middleware, m],
+        timeout,
+      ),
+    add: (routeOrGate: AnyRoute | AnyGate | AnyRouter): AnyRouter => {
+      if (routeOrGate._tag === "Gate" || routeOrGate._tag === "Router") {
+        // Extract routes from gate or router
+        const group = routeOrGate as AnyGate | AnyRouter;
+        // A router's middleware keeps wrapping its own routes
+        const groupMiddleware = group._tag === "Router" ? group.middleware : [];
+        const groupRoutes = group.routes.map((r) => ({
+          ...withTimeout(r as Routable, timeout),
+          pattern: prefixValue
+            ? (`${prefixValue}${r.pattern}` as const)
+            : r.pattern,
+          ...(groupMiddleware.length > 0
+            ? { middleware: [...groupMiddleware, ...(r.middleware ?? [])] }
+            : {}),
+        }));
         return createRouter(
-          [...routes, prefixedRoute] as ReadonlyArray<Routable>,
+          validationError,
+          appendRoutes(routes, groupRoutes as ReadonlyArray<Routable>),
           prefixValue,
+          middleware,
+          timeout,
         );
-      },
-      prefix: (prefix: string) => {
-        const newPrefix = prefixValue + prefix;
-        // Re-create router with new prefix applied to existing routes
-        const prefixedRoutes = routes.map((r) => ({
-          ...r,
-          pattern: `${prefix}${r.pattern}` as const,
-        }));
-        return createRouter(prefixedRoutes as ReadonlyArray<Routes>, newPrefix);
-      },
-    }) as Router<Routes>;
+      }
 
-  return createRouter([]);
-};
+      // Regular route
+      const route = withTimeout(routeOrGate as AnyRoute, timeout);
+      const prefixedRoute = prefixValue
+        ? {
+            ...route,
+            pattern: `${prefixValue}${route.pattern}` as const,
+          }
+        : route;
+      return createRouter(
+        validationError,
+        appendRoutes(routes, [prefixedRoute as Routable]),
+        prefixValue,
+        middleware,
+        timeout,
+      );
+    },
+    mount: (prefix: PathInput, router: AnyRouter): AnyRouter =>
+      createRouter(
+        validationError,
+        routes,
+        prefixValue,
+        middleware,
+        timeout,
+      ).add(router.prefix(prefix) as never),
+    prefix: (prefix: PathInput) => {
+      // The new prefix goes in front of the current one, so routes added
+      // later line up with the existing ones
+      const newPrefix = prefix + prefixValue;
+      const prefixedRoutes = routes.map((r) => ({
+        ...r,
+        pattern: `${prefix}${r.pattern}` as const,
+      }));
+      return createRouter(
+        validationError,
+        prefixedRoutes as ReadonlyArray<Routable>,
+        newPrefix,
+        middleware,
+        timeout,
+      );
+    },
+  }) as AnyRouter;
 
 /**
  * Check if a value is a Router.
@@ -133,3 +660,21 @@ export const isRoute = (routable: Routable): routable is AnyRoute =>
  */
 export const isGatedRoute = (routable: Routable): routable is AnyGatedRoute =>
   routable._tag === "GatedRoute";
+
+/**
+ * Generate an OpenAPI 3.1 document describing every route in a router.
+ *
+ * @example
+ * ```ts
+ * const router = Router.make().add(getUser).add(createUser);
+ *
+ * const document = Router.toOpenApi(router, {
+ *   title: "Users API",
+ *   version: "1.0.0",
+ * });
+ * ```
+ */
+export const toOpenApi = (
+  router: AnyRouter,
+  info: OpenApi.Info,
+): OpenApi.Document => OpenApi.fromRouter(router, info);
@@ -44,12 +44,19 @@
 
 // Core modules - namespace imports recommended
 export * as Annotations from "./Annotations.js";
+export * as Auth from "./Auth.js";
 export type { Client as ClientType } from "./Client.js";
 export * as Client from "./Client.js";
+export * as Cookies from "./Cookies.js";
+export * as Cors from "./Cors.js";
+export * as Docs from "./Docs.js";
 export type { AnyGate, AnyGatedRoute } from "./Gate.js";
 export * as Gate from "./Gate.js";
 export * as Handler from "./Handler.js";
 export * as Headers from "./Headers.js";
+export * as Metrics from "./Metrics.js";
+export * as OpenApi from "./OpenApi.js";
+export * as RequestContext from "./RequestContext.js";
 
 // Re-export commonly used types
 export type { AnyRoute, HttpMethod, PathInput, RouteConfig } from "./Route.js";
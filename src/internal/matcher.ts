@@ -0,0 +1,303 @@
+import { RoutePattern } from "@remix-run/route-pattern";
+
+/**
+ * A compiled set of route patterns.
+ */
+export interface Matcher<T> {
+  /**
+   * Find the value of the best matching pattern, or null if none match.
+   */
+  readonly match: (url: URL) => Match<T> | null;
+}
+
+/**
+ * A successful match.
+ */
+export interface Match<T> {
+  readonly value: T;
+  readonly params: Record<string, string | undefined>;
+}
+
+/**
+ * A pattern compiled into the trie, with the names of the params it
+ * captures in path order (undefined for an unnamed wildcard).
+ */
+interface Leaf<T> {
+  readonly value: T;
+  readonly paramNames: ReadonlyArray<string | undefined>;
+}
+
+/**
+ * A trie node for one path segment.
+ */
+interface Node<T> {
+  readonly statics: Map<string, Node<T>>;
+  param: Node<T> | undefined;
+  readonly wildcards: Array<Leaf<T>>;
+  readonly leaves: Array<Leaf<T>>;
+}
+
+/**
+ * A pattern segment.
+ */
+type Segment =
+  | { readonly _tag: "Static"; readonly value: string }
+  | { readonly _tag: "Param"; readonly name: string }
+  | { readonly _tag: "Wildcard"; readonly name: string | undefined };
+
+const paramSegment = /^:([A-Za-z_$][\w$]*)$/;
+const wildcardSegment = /^\*([A-Za-z_$][\w$]*)?$/;
+
+/**
+ * Split a pattern into trie segments. Returns undefined for patterns the
+ * trie cannot represent: optional groups, hostnames, search constraints,
+ * escapes, params or wildcards inside a segment, and wildcards before the
+ * last segment. Those are matched with RoutePattern instead.
+ */
+const toSegments = (pattern: string): ReadonlyArray<Segment> | undefined => {
+  if (!pattern.startsWith("/") || /[()?\\]|:\/\//.test(pattern)) {
+    return undefined;
+  }
+
+  const parts = pattern.slice(1).split("/");
+  const segments: Array<Segment> = [];
+  for (const [index, part] of parts.entries()) {
+    const param = paramSegment.exec(part);
+    const wildcard = wildcardSegment.exec(part);
+    if (param) {
+      segments.push({ _tag: "Param", name: param[1]! });
+    } else if (wildcard && index === parts.length - 1) {
+      segments.push({ _tag: "Wildcard", name: wildcard[1] });
+    } else if (/[:*]/.test(part)) {
+      return undefined;
+    } else {
+      segments.push({ _tag: "Static", value: part });
+    }
+  }
+  return segments;
+};
+
+const makeNode = <T>(): Node<T> => ({
+  statics: new Map(),
+  param: undefined,
+  wildcards: [],
+  leaves: [],
+});
+
+/**
+ * Insert a pattern into the trie.
+ */
+const insert = <T>(
+  root: Node<T>,
+  segments: ReadonlyArray<Segment>,
+  value: T,
+): void => {
+  let node = root;
+  const paramNames: Array<string | undefined> = [];
+
+  for (const segment of segments) {
+    switch (segment._tag) {
+      case "Static": {
+        let child = node.statics.get(segment.value);
+        if (!child) {
+          child = makeNode();
+          node.statics.set(segment.value, child);
+        }
+        node = child;
+        break;
+      }
+      case "Param": {
+        node.param ??= makeNode();
+        node = node.param;
+        paramNames.push(segment.name);
+        break;
+      }
+      case "Wildcard": {
+        paramNames.push(segment.name);
+        node.wildcards.push({ value, paramNames });
+        return;
+      }
+    }
+  }
+
+  node.leaves.push({ value, paramNames });
+};
+
+/**
+ * Build the params of a matched leaf from the captured segment values.
+ */
+const toParams = <T>(
+  leaf: Leaf<T>,
+  captures: ReadonlyArray<string>,
+): Record<string, string | undefined> => {
+  const params: Record<string, string | undefined> = {};
+  for (const [index, name] of leaf.paramNames.entries()) {
+    if (name !== undefined) {
+      params[name] = captures[index];
+    }
+  }
+  return params;
+};
+
+/**
+ * A trie match, noting whether the pattern was fully static.
+ */
+interface TrieMatch<T> extends Match<T> {
+  readonly static: boolean;
+}
+
+/**
+ * Walk the trie, preferring static segments over params over wildcards and
+ * backtracking when a more specific branch has no match.
+ */
+const search = <T>(
+  node: Node<T>,
+  segments: ReadonlyArray<string>,
+  index: number,
+  captures: Array<string>,
+): TrieMatch<T> | null => {
+  if (index === segments.length) {
+    const leaf = node.leaves[0];
+    return leaf
+      ? {
+          value: leaf.value,
+          params: toParams(leaf, captures),
+          static: leaf.paramNames.length === 0,
+        }
+      : null;
+  }
+
+  const segment = segments[index]!;
+
+  const child = node.statics.get(segment);
+  if (child) {
+    const match = search(child, segments, index + 1, captures);
+    if (match) return match;
+  }
+
+  // Params never match an empty segment
+  if (node.param && segment !== "") {
+    captures.push(segment);
+    const match = search(node.param, segments, index + 1, captures);
+    captures.pop();
+    if (match) return match;
+  }
+
+  const wildcard = node.wildcards[0];
+  if (wildcard) {
+    const rest = segments.slice(index).join("/");
+    return {
+      value: wildcard.value,
+      params: toParams(wildcard, [...captures, rest]),
+      static: false,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Compile patterns into a matcher.
+ *
+ * Plain patterns (static segments, `:params` and a trailing `*wildcard`)
+ * are compiled into a trie that prefers static segments over params over
+ * wildcards, regardless of registration order. Patterns with the same
+ * shape match in registration order. Other patterns, such as optional
+ * groups or `:name.json`, are matched with RoutePattern in registration
+ * order, after fully static patterns but before params and wildcards.
+ *
+ * Matching follows RoutePattern: it is case-sensitive, runs on the raw
+ * (percent-encoded) pathname, and treats a trailing slash as significant.
+ */
+export const make = <T>(
+  entries: ReadonlyArray<{ readonly pattern: string; readonly value: T }>,
+): Matcher<T> => {
+  const root = makeNode<T>();
+  const fallback: Array<{ pattern: RoutePattern<string>; value: T }> = [];
+
+  for (const { pattern, value } of entries) {
+    const segments = toSegments(pattern);
+    if (segments) {
+      insert(root, segments, value);
+    } else {
+      fallback.push({ pattern: new RoutePattern(pattern), value });
+    }
+  }
+
+  return {
+    match: (url) => {
+      const match = search(root, url.pathname.slice(1).split("/"), 0, []);
+      if (match?.static) {
+        return { value: match.value, params: match.params };
+      }
+
+      for (const { pattern, value } of fallback) {
+        const result = pattern.match(url);
+        if (result) {
+          return {
+            value,
+            params: result.params as Record<string, string | undefined>,
+          };
+        }
+      }
+      return match && { value: match.value, params: match.params };
+    },
+  };
+};
+
+/**
+ * Erase the param and wildcard names of a pattern. Patterns with the same
+ * signature match the same requests, so only the first one is reachable.
+ */
+export const signature = (pattern: string): string =>
+  pattern.replace(/([:*])[A-Za-z_$][\w$]*/g, "$1");
+
+/**
+ * The order in which a pattern is tried: fully static trie patterns first,
+ * then RoutePattern fallbacks, then trie patterns with params or wildcards.
+ */
+const rank = (pattern: string): number => {
+  const segments = toSegments(pattern);
+  if (!segments) {
+    return 1;
+  }
+  return segments.every((segment) => segment._tag === "Static") ? 0 : 2;
+};
+
+/**
+ * The signatures of the variants of a pattern, one for each combination of
+ * its optional groups.
+ */
+const variants = (pattern: string): ReadonlyArray<string> => {
+  // Expand the innermost group first, with and without its contents
+  const group = /\(([^()]*)\)/.exec(pattern);
+  if (!group) {
+    return [signature(pattern)];
+  }
+  const before = pattern.slice(0, group.index);
+  const after = pattern.slice(group.index + group[0].length);
+  return [...variants(before + group[1] + after), ...variants(before + after)];
+};
+
+/**
+ * Whether a pattern can never match, because `other` matches all of its
+ * requests first: they have the same signature, or each variant of the
+ * pattern is a variant of `other`'s optional groups. `otherFirst` tells
+ * whether `other` was registered first, which decides between patterns
+ * tried at the same stage.
+ *
+ * Other partial overlaps, such as `/files/:name.json` and `/files/:id`,
+ * leave both patterns reachable and are not reported.
+ */
+export const isShadowed = (
+  pattern: string,
+  other: string,
+  otherFirst: boolean,
+): boolean => {
+  const order = rank(other) - rank(pattern);
+  if (order > 0 || (order === 0 && !otherFirst)) {
+    return false;
+  }
+  const covered = new Set(variants(other));
+  return variants(pattern).every((variant) => covered.has(variant));
+};
@@ -0,0 +1,70 @@
+import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+import * as ServiceMap from "effect/ServiceMap";
+import * as Tracer from "effect/Tracer";
+
+/**
+ * The `tracestate` of the request being handled, forwarded by the client
+ * along with the current span.
+ */
+export const TraceState = ServiceMap.Reference<string | undefined>(
+  "funcho/TraceState",
+  { defaultValue: () => undefined },
+);
+
+/**
+ * A W3C `traceparent` header: version, trace id, parent id and flags.
+ */
+const traceparentPattern =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a W3C `traceparent` header into the span it refers to, or
+ * undefined if the header is missing or invalid.
+ */
+export const parseTraceparent = (
+  header: string | null,
+): Tracer.ExternalSpan | undefined => {
+  const match = header?.trim().toLowerCase().match(traceparentPattern);
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has no trailing fields
+  if (
+    version === "ff" ||
+    (version === "00" && rest !== undefined) ||
+    /^0+$/.test(traceId!) ||
+    /^0+$/.test(spanId!)
+  ) {
+    return undefined;
+  }
+  return Tracer.externalSpan({
+    traceId: traceId!,
+    spanId: spanId!,
+    sampled: (Number.parseInt(flags!, 16) & 1) === 1,
+  });
+};
+
+/**
+ * Format a span as a W3C `traceparent` header.
+ */
+export const formatTraceparent = (span: Tracer.AnySpan): string =>
+  `00-${span.traceId}-${span.spanId}-${span.sampled ? "01" : "00"}`;
+
+/**
+ * Set the `traceparent` and `tracestate` headers of an outgoing request
+ * from the current span, unless they are already set.
+ */
+export const inject = (headers: globalThis.Headers): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const span = yield* Effect.option(Effect.currentSpan);
+    if (Option.isNone(span) || headers.has("traceparent")) {
+      return;
+    }
+    headers.set("traceparent", formatTraceparent(span.value));
+    const traceState = yield* TraceState;
+    if (traceState && !headers.has("tracestate")) {
+      headers.set("tracestate", traceState);
+    }
+  });
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Logger from "effect/Logger";
+import * as Schema from "effect/Schema";
+import * as Handler from "../src/Handler.js";
+import * as Headers from "../src/Headers.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+class NotFoundError extends Route.Error(
+  "NotFoundError",
+  404,
+)({
+  message: Schema.String,
+}) {}
+
+const router = Router.make()
+  .add(
+    Route.get(
+      "/users/:id",
+      {
+        path: Schema.Struct({ id: Schema.String }),
+        success: Schema.Struct({ id: Schema.String }),
+        errors: [NotFoundError],
+      },
+      Effect.fnUntraced(function* ({ path }) {
+        yield* Headers.set("set-cookie", "session=abc");
+        yield* Headers.set("x-trace", "visible");
+        if (path.id === "missing") {
+          return yield* new NotFoundError({ message: "No such user" });
+        }
+        return { id: path.id };
+      }),
+    ),
+  )
+  .add(
+    Route.get("/crash", { success: Schema.Void }, () =>
+      Effect.die(new Error("boom")),
+    ),
+  );
+
+type Entry = ReturnType<typeof Logger.formatStructured.log>;
+
+/**
+ * A fetch handler keeping its log entries.
+ */
+const handlerWith = (options: Handler.HandlerOptions) => {
+  const entries: Array<Entry> = [];
+  const logger = Logger.make((options) => {
+    entries.push(Logger.formatStructured.log(options));
+  });
+  const handler = Handler.toFetch(router, Logger.layer([logger]), options);
+  return { entries, handler };
+};
+
+const request = (
+  handler: Handler.FetchHandler,
+  path: string,
+  headers: Record<string, string> = {},
+) =>
+  Effect.promise(() =>
+    handler(new Request(`http://localhost${path}`, { headers })),
+  );
+
+describe.concurrent("Access log", () => {
+  it.effect("logs one structured entry per request", () =>
+    Effect.gen(function* () {
+      const { entries, handler } = handlerWith({ accessLog: true });
+      yield* request(handler, "/users/42", {
+        "user-agent": "test-agent",
+        "x-request-id": "req-1",
+        authorization: "Bearer secret",
+        cookie: "session=abc",
+      });
+
+      expect(entries).toHaveLength(1);
+      const [entry] = entries;
+      expect(entry!.level).toBe("INFO");
+      expect(entry!.message).toBe("GET /users/:id 200");
+      expect(entry!.annotations).toEqual({
+        method: "GET",
+        path: "/users/42",
+        route: "/users/:id",
+        status: 200,
+        durationMs: expect.any(Number),
+        requestId: "req-1",
+        userAgent: "test-agent",
+        requestHeaders: {
+          authorization: "[REDACTED]",
+          cookie: "[REDACTED]",
+          "user-agent": "test-agent",
+          "x-request-id": "req-1",
+        },
+        responseHeaders: {
+          "content-type": "application/json",
+          "set-cookie": "[REDACTED]",
+          "x-trace": "visible",
+        },
+      });
+    }),
+  );
+
+  it.effect("includes the error tag of failed requests", () =>
+    Effect.gen(function* () {
+      const { entries, handler } = handlerWith({ accessLog: true });
+      yield* request(handler, "/users/missing");
+      yield* request(handler, "/crash");
+      yield* request(handler, "/nowhere");
+
+      expect(
+        entries.map((entry) => [
+          entry.message,
+          entry.annotations.errorTag,
+          typeof entry.annotations.requestId,
+        ]),
+      ).toEqual([
+        ["GET /users/:id 404", "NotFoundError", "string"],
+        ["GET /crash 500", "InternalServerError", "string"],
+        ["GET /nowhere 404", undefined, "string"],
+      ]);
+    }),
+  );
+
+  it.effect("redacts configured headers", () =>
+    Effect.gen(function* () {
+      const { entries, handler } = handlerWith({
+        accessLog: { redactHeaders: ["X-Trace"] },
+      });
+      yield* request(handler, "/users/1");
+
+      expect(entries[0]!.annotations.responseHeaders).toMatchObject({
+        "x-trace": "[REDACTED]",
+      });
+    }),
+  );
+
+  it.effect("samples requests", () =>
+    Effect.gen(function* () {
+      const none = handlerWith({ accessLog: { sampleRate: 0 } });
+      const off = handlerWith({});
+      for (const { handler } of [none, off]) {
+        const response = yield* request(handler, "/users/1");
+        expect(response.status).toBe(200);
+      }
+      expect(none.entries).toEqual([]);
+      expect(off.entries).toEqual([]);
+    }),
+  );
+});
@@ -0,0 +1,292 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Auth from "../src/Auth.js";
+import * as Client from "../src/Client.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+const BearerGate = Auth.bearer(
+  { bearerFormat: "JWT", realm: "api" },
+  (token) =>
+    token === "secret"
+      ? Effect.succeed({ user: "ada" })
+      : Effect.fail(new Auth.UnauthorizedError({ message: "Invalid token" })),
+);
+
+const BasicGate = Auth.basic({ realm: "admin" }, ({ username, password }) =>
+  username === "admin" && password === "p@ss:word"
+    ? Effect.succeed({ user: username })
+    : Effect.fail(
+        new Auth.UnauthorizedError({ message: "Invalid credentials" }),
+      ),
+);
+
+const verifyKey = (key: string) =>
+  key === "key-1"
+    ? Effect.succeed({ user: "service" })
+    : Effect.fail(new Auth.UnauthorizedError({ message: "Unknown key" }));
+
+const HeaderKeyGate = Auth.apiKey(
+  { in: "header", name: "x-api-key" },
+  verifyKey,
+);
+const QueryKeyGate = Auth.apiKey({ in: "query", name: "api_key" }, verifyKey);
+const CookieKeyGate = Auth.apiKey({ in: "cookie", name: "session" }, verifyKey);
+
+const Whoami = Schema.Struct({ user: Schema.String });
+
+const router = Router.make()
+  .add(
+    BearerGate.add(
+      Route.get("/bearer", { success: Whoami }, () =>
+        Effect.service(BearerGate.Context),
+      ),
+    ),
+  )
+  .add(
+    BasicGate.add(
+      Route.get("/basic", { success: Whoami }, () =>
+        Effect.service(BasicGate.Context),
+      ),
+    ),
+  )
+  .add(
+    HeaderKeyGate.add(
+      Route.get("/header-key", { success: Whoami }, () =>
+        Effect.service(HeaderKeyGate.Context),
+      ),
+    ),
+  )
+  .add(
+    QueryKeyGate.add(
+      Route.get("/query-key", { success: Whoami }, () =>
+        Effect.service(QueryKeyGate.Context),
+      ),
+    ),
+  )
+  .add(
+    CookieKeyGate.add(
+      Route.get("/cookie-key", { success: Whoami }, () =>
+        Effect.service(CookieKeyGate.Context),
+      ),
+    ),
+  )
+  .add(Route.get("/public", { success: Schema.Void }, () => Effect.void));
+
+const handler = Handler.toFetch(router);
+
+const fetchPath = (path: string, headers: Record<string, string> = {}) =>
+  Effect.promise(() =>
+    handler(new Request(`http://localhost${path}`, { headers })),
+  );
+
+describe.concurrent("Auth.bearer", () => {
+  it.effect("provides the context returned by verify", () =>
+    Effect.gen(function* () {
+      const response = yield* fetchPath("/bearer", {
+        authorization: "Bearer secret",
+      });
+      expect(response.status).toBe(200);
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        user: "ada",
+      });
+    }),
+  );
+
+  it.effect("challenges requests without a token", () =>
+    Effect.gen(function* () {
+      const response = yield* fetchPath("/bearer", {
+        authorization: "Basic Zm9vOmJhcg==",
+      });
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe(
+        'Bearer realm="api"',
+      );
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        error: { _tag: "UnauthorizedError", message: "Missing bearer token" },
+      });
+    }),
+  );
+
+  it.effect("challenges requests whose token verify rejects", () =>
+    Effect.gen(function* () {
+      const response = yield* fetchPath("/bearer", {
+        authorization: "Bearer wrong",
+      });
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe(
+        'Bearer realm="api", error="invalid_token"',
+      );
+    }),
+  );
+
+  it.effect("types the error in the client", () =>
+    Effect.gen(function* () {
+      const client = Client.make(router, {
+        baseUrl: "http://localhost",
+        fetch: (url, init) => handler(new Request(url, init)),
+      });
+      const error = yield* Effect.flip(client.bearer.get());
+      expect(error).toBeInstanceOf(Auth.UnauthorizedError);
+    }),
+  );
+});
+
+describe.concurrent("Auth.basic", () => {
+  it.effect("decodes the username and password", () =>
+    Effect.gen(function* () {
+      const response = yield* fetchPath("/basic", {
+        authorization: `Basic ${btoa("admin:p@ss:word")}`,
+      });
+      expect(response.status).toBe(200);
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        user: "admin",
+      });
+    }),
+  );
+
+  it.effect("challenges requests with missing or invalid credentials", () =>
+    Effect.gen(function* () {
+      for (const authorization of [
+        undefined,
+        "Basic !!!",
+        `Basic ${btoa("admin:nope")}`,
+      ]) {
+        const response = yield* fetchPath(
+          "/basic",
+          authorization ? { authorization } : {},
+        );
+        expect(response.status).toBe(401);
+        expect(response.headers.get("www-authenticate")).toBe(
+          'Basic realm="admin", charset="UTF-8"',
+        );
+      }
+    }),
+  );
+});
+
+describe.concurrent("Auth.apiKey", () => {
+  it.effect("reads the key from a header, query parameter or cookie", () =>
+    Effect.gen(function* () {
+      const fromHeader = yield* fetchPath("/header-key", {
+        "x-api-key": "key-1",
+      });
+      expect(fromHeader.status).toBe(200);
+
+      const fromQuery = yield* fetchPath("/query-key?api_key=key-1");
+      expect(fromQuery.status).toBe(200);
+
+      const fromCookie = yield* fetchPath("/cookie-key", {
+        cookie: "theme=dark; session=key-1",
+      });
+      expect(fromCookie.status).toBe(200);
+    }),
+  );
+
+  it.effect("challenges requests with missing or unknown keys", () =>
+    Effect.gen(function* () {
+      const missing = yield* fetchPath("/query-key");
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get("www-authenticate")).toBe(
+        'ApiKey in="query", name="api_key"',
+      );
+
+      const unknown = yield* fetchPath("/header-key", { "x-api-key": "nope" });
+      expect(unknown.status).toBe(401);
+    }),
+  );
+
+  it("adds query and header keys to the route's inputs", () => {
+    const route = (pattern: string) =>
+      router.routes.find((route) => route.pattern === pattern)!;
+    expect(Object.keys(route("/query-key").config.query!.fields)).toEqual([
+      "api_key",
+    ]);
+    expect(Object.keys(route("/header-key").config.headers!.fields)).toEqual([
+      "x-api-key",
+    ]);
+  });
+
+  it.effect("sends header keys with clients", () =>
+    Effect.gen(function* () {
+      const client = Client.make(router, {
+        baseUrl: "http://localhost",
+        fetch: (url, init) => handler(new Request(url, init)),
+      });
+      const whoami = yield* client["header-key"].get({
+        headers: { "x-api-key": "key-1" },
+      });
+      expect(whoami).toEqual({ user: "service" });
+    }),
+  );
+
+  it.effect("escapes quotes and backslashes in challenges", () =>
+    Effect.gen(function* () {
+      const QuotedGate = Auth.apiKey(
+        { in: "header", name: "X-Key", realm: 'the "back\\office"' },
+        verifyKey,
+      );
+      const response = yield* Effect.promise(() =>
+        Handler.toFetch(
+          Router.make().add(
+            QuotedGate.add(
+              Route.get("/office", { success: Whoami }, () =>
+                Effect.service(QuotedGate.Context),
+              ),
+            ),
+          ),
+        )(new Request("http://localhost/office")),
+      );
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe(
+        'ApiKey realm="the \\"back\\\\office\\"", in="header", name="X-Key"',
+      );
+    }),
+  );
+});
+
+describe("Auth security schemes", () => {
+  it("marks gated operations as protected in the OpenAPI document", () => {
+    const document = Router.toOpenApi(router, {
+      title: "Auth",
+      version: "1.0.0",
+    });
+    expect(document.components.securitySchemes).toEqual({
+      bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      basicAuth: { type: "http", scheme: "basic" },
+      apiKeyAuth: { type: "apiKey", name: "session", in: "cookie" },
+    });
+    expect(document.paths["/bearer"]!.get!.security).toEqual([
+      { bearerAuth: [] },
+    ]);
+    expect(document.paths["/basic"]!.get!.security).toEqual([
+      { basicAuth: [] },
+    ]);
+    expect(document.paths["/public"]!.get!.security).toBeUndefined();
+  });
+
+  it("names schemes to tell them apart", () => {
+    const PartnerGate = Auth.apiKey(
+      { in: "header", name: "x-partner-key", securityScheme: "partnerKey" },
+      verifyKey,
+    );
+    const document = Router.toOpenApi(
+      Router.make().add(
+        PartnerGate.add(
+          Route.get("/partners", { success: Whoami }, () =>
+            Effect.service(PartnerGate.Context),
+          ),
+        ),
+      ),
+      { title: "Partners", version: "1.0.0" },
+    );
+    expect(document.components.securitySchemes).toEqual({
+      partnerKey: { type: "apiKey", name: "x-partner-key", in: "header" },
+    });
+    expect(document.paths["/partners"]!.get!.security).toEqual([
+      { partnerKey: [] },
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as SchemaGetter from "effect/SchemaGetter";
+import * as Client from "../src/Client.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+// Test schemas
+const Event = Schema.Struct({
+  id: Schema.String,
+  at: Schema.Date,
+});
+
+// Test errors
+class NotFoundError extends Route.Error(
+  "NotFoundError",
+  404,
+)({
+  message: Schema.String,
+}) {}
+
+class UnauthorizedError extends Route.Error("UnauthorizedError", 401)({}) {}
+
+const PlainTextUnauthorizedError = UnauthorizedError.pipe(
+  Schema.encodeTo(Schema.String, {
+    encode: SchemaGetter.transform(() => "Unauthorized"),
+    decode: SchemaGetter.transform(() => new UnauthorizedError({})),
+  }),
+  Route.contentType("text/plain"),
+);
+
+// Test routes
+const getEvent = Route.get(
+  "/events/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    success: Event,
+    errors: [NotFoundError, PlainTextUnauthorizedError],
+  },
+  ({ path }) => {
+    switch (path.id) {
+      case "missing":
+        return Effect.fail(new NotFoundError({ message: "Event not found" }));
+      case "secret":
+        return Effect.fail(new UnauthorizedError({}));
+      default:
+        return Effect.succeed({
+          id: path.id,
+          at: new Date("2024-01-01T00:00:00.000Z"),
+        });
+    }
+  },
+);
+
+const Updated = Schema.Struct({ id: Schema.String }).pipe(Route.status(200));
+const Created = Schema.Struct({ id: Schema.String }).pipe(Route.status(201));
+
+const events = new Set(["launch"]);
+
+const putEvent = Route.put(
+  "/events/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    success: [Updated, Created],
+  },
+  ({ path }) => {
+    if (events.has(path.id)) {
+      return Effect.succeed(Route.respond(Updated, { id: path.id }));
+    }
+    events.add(path.id);
+    return Effect.succeed(Route.respond(Created, { id: path.id }));
+  },
+);
+
+const deleteEvent = Route.del(
+  "/events/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    success: Schema.Void,
+  },
+  ({ path }) =>
+    Effect.sync(() => {
+      events.delete(path.id);
+    }),
+);
+
+const router = Router.make().add(getEvent).add(putEvent).add(deleteEvent);
+const handler = Handler.toFetch(router);
+
+const client = Client.make(router, {
+  baseUrl: "http://localhost",
+  fetch: (url, init) => handler(new Request(url, init)),
+});
+
+// The same server over the network, where bodies are never null
+const networkClient = Client.make(router, {
+  baseUrl: "http://localhost",
+  fetch: async (url, init) => {
+    const response = await handler(new Request(url, init));
+    return new Response(await response.text(), response);
+  },
+});
+
+// A server that answers every request with a proxy error page
+const proxyClient = Client.make(router, {
+  baseUrl: "http://localhost",
+  fetch: () =>
+    Promise.resolve(
+      new Response("<h1>Bad Gateway</h1>", {
+        status: 404,
+        headers: { "content-type": "text/html" },
+      }),
+    ),
+});
+
+describe.concurrent("Client", () => {
+  it.effect("decodes success bodies with the success schema", () =>
+    Effect.gen(function* () {
+      const event = yield* client.events.get({ path: { id: "launch" } });
+      expect(event.id).toBe("launch");
+      expect(event.at).toBeInstanceOf(Date);
+      expect(event.at.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+    }),
+  );
+
+  it.effect("fails with error class instances", () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(
+        client.events.get({ path: { id: "missing" } }),
+      );
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({
+        _tag: "NotFoundError",
+        message: "Event not found",
+      });
+    }),
+  );
+
+  it.effect("decodes transformed errors from their encoded form", () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(
+        client.events.get({ path: { id: "secret" } }),
+      );
+      expect(error).toBeInstanceOf(UnauthorizedError);
+    }),
+  );
+
+  it.effect("tags responses of routes with several success schemas", () =>
+    Effect.gen(function* () {
+      const created = yield* client.events.update({ path: { id: "landing" } });
+      expect(created).toEqual({ status: 201, body: { id: "landing" } });
+
+      const updated = yield* client.events.update({ path: { id: "landing" } });
+      expect(updated.status).toBe(200);
+    }),
+  );
+
+  it.effect("decodes empty bodies of Schema.Void routes at status 200", () =>
+    Effect.gen(function* () {
+      yield* client.events.update({ path: { id: "draft" } });
+      expect(
+        yield* client.events.delete({ path: { id: "draft" } }),
+      ).toBeUndefined();
+      expect(
+        yield* networkClient.events.delete({ path: { id: "draft" } }),
+      ).toBeUndefined();
+    }),
+  );
+
+  it.effect("fails with unknown error payloads as a ClientError", () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(
+        proxyClient.events.get({ path: { id: "launch" } }),
+      );
+      expect(error).toBeInstanceOf(Client.ClientError);
+      expect(error).toMatchObject({
+        reason: "UnknownResponse",
+        status: 404,
+        body: "<h1>Bad Gateway</h1>",
+      });
+    }),
+  );
+
+  it.effect("decodes validation errors with the router's schema", () =>
+    Effect.gen(function* () {
+      const ValidationProblem = Schema.Struct({
+        _tag: Schema.tag("RequestValidationError"),
+        message: Schema.String,
+      }).pipe(Route.status(400));
+      const problemRouter = Router.make({ validationError: ValidationProblem })
+        .add(
+          Route.get(
+            "/pages",
+            {
+              query: Schema.Struct({ page: Schema.FiniteFromString }),
+              success: Schema.Void,
+            },
+            () => Effect.void,
+          ),
+        )
+        .add(Route.get("/ping", { success: Schema.Void }, () => Effect.void));
+      const problemHandler = Handler.toFetch(problemRouter);
+      const problemClient = Client.make(problemRouter, {
+        baseUrl: "http://localhost",
+        fetch: (url, init) => problemHandler(new Request(url, init)),
+      });
+
+      const error = yield* Effect.flip(
+        problemClient.pages.get({ query: { page: Number.NaN } }),
+      );
+      expect(error).toEqual({
+        _tag: "RequestValidationError",
+        message: "Invalid request query",
+      });
+      if (error._tag !== "RequestValidationError") {
+        return;
+      }
+      // @ts-expect-error - decoded by the router's schema, not the class
+      const instance: Route.RequestValidationError = error;
+
+      type Invalid<F> = F extends () => Effect.Effect<unknown, infer E>
+        ? Extract<E, { readonly _tag: "RequestValidationError" }>
+        : never;
+      // @ts-expect-error - routes without inputs cannot fail validation
+      const ping: Invalid<typeof problemClient.ping.get> = error;
+      expect([instance, ping]).toHaveLength(2);
+    }),
+  );
+
+  it.effect("reaches routes of mounted routers under their prefix", () =>
+    Effect.gen(function* () {
+      const api = Router.make().mount("/calendar", router).prefix("/api");
+      const apiHandler = Handler.toFetch(api);
+      const apiClient = Client.make(api, {
+        baseUrl: "http://localhost",
+        fetch: (url, init) => apiHandler(new Request(url, init)),
+      });
+
+      const event = yield* apiClient.api.calendar.events.get({
+        path: { id: "launch" },
+      });
+      expect(event.id).toBe("launch");
+    }),
+  );
+});
@@ -0,0 +1,250 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
+import * as Schema from "effect/Schema";
+import * as Cookies from "../src/Cookies.js";
+import * as Handler from "../src/Handler.js";
+import * as Headers from "../src/Headers.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+const Session = Cookies.typed(
+  "session",
+  Schema.Struct({ userId: Schema.String, admin: Schema.Boolean }),
+  { signed: true, httpOnly: true, sameSite: "lax", maxAge: 3600 },
+);
+
+const Theme = Cookies.typed("theme", Schema.Literals(["light", "dark"]));
+
+const router = Router.make()
+  .add(
+    Route.get(
+      "/cookies",
+      { success: Schema.Record(Schema.String, Schema.String) },
+      () => Cookies.getAll,
+    ),
+  )
+  .add(
+    Route.post(
+      "/preferences",
+      { success: Schema.Void },
+      Effect.fnUntraced(function* () {
+        const theme = yield* Cookies.get("theme");
+        yield* Cookies.set("theme", theme === "dark" ? "light" : "dark", {
+          path: "/app",
+          domain: "example.com",
+          maxAge: 86400,
+          sameSite: "none",
+          httpOnly: true,
+          partitioned: true,
+        });
+        yield* Cookies.del("legacy", { path: "/app" });
+      }),
+    ),
+  )
+  .add(
+    Route.post(
+      "/login",
+      { success: Schema.Void },
+      Effect.fnUntraced(function* () {
+        yield* Session.set({ userId: "ada", admin: false });
+        yield* Theme.set("dark");
+      }),
+    ),
+  )
+  .add(
+    Route.get(
+      "/me",
+      {
+        success: Schema.Struct({
+          userId: Schema.optionalKey(Schema.String),
+          theme: Schema.optionalKey(Schema.String),
+        }),
+      },
+      Effect.fnUntraced(function* () {
+        const session = yield* Session.get;
+        const theme = yield* Theme.get;
+        return {
+          ...(session ? { userId: session.userId } : {}),
+          ...(theme ? { theme } : {}),
+        };
+      }),
+    ),
+  );
+
+const handlerWith = (secrets: ReadonlyArray<string>) =>
+  Handler.toFetch(router, Layer.succeed(Cookies.Secrets, secrets));
+
+const request = (
+  handler: Handler.FetchHandler,
+  method: string,
+  path: string,
+  cookie?: string,
+) =>
+  Effect.promise(() =>
+    handler(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: cookie ? { cookie } : {},
+      }),
+    ),
+  );
+
+/**
+ * Turn the Set-Cookie headers of a response into a Cookie header.
+ */
+const cookieHeader = (response: Response) =>
+  response.headers
+    .getSetCookie()
+    .map((setCookie) => setCookie.split(";")[0])
+    .join("; ");
+
+describe.concurrent("Cookies", () => {
+  it("parses and serializes cookies", () => {
+    expect(Cookies.parse('a=1; b="two"; a=3; c=%E2%9C%93; bad')).toEqual({
+      a: "1",
+      b: "two",
+      c: "✓",
+    });
+    expect(
+      Cookies.serialize("id", "a b", { maxAge: 60, sameSite: "strict" }),
+    ).toBe("id=a%20b; Path=/; Max-Age=60; SameSite=Strict");
+  });
+
+  it("rejects names, paths and domains that would break the header", () => {
+    for (const name of ["", "a b", "a;b", "a=b", "a\r\nb", "ünï"]) {
+      expect(() => Cookies.serialize(name, "1")).toThrow("Invalid cookie name");
+    }
+    expect(() => Cookies.serialize("id", "1", { path: "/; Secure" })).toThrow(
+      "Invalid cookie path",
+    );
+    expect(() =>
+      Cookies.serialize("id", "1", { domain: "example.com\r\nx-evil: 1" }),
+    ).toThrow("Invalid cookie domain");
+    expect(Cookies.serialize("__Host-id", "1", { path: "/a b" })).toBe(
+      "__Host-id=1; Path=/a b",
+    );
+  });
+
+  it.effect("dies setting invalid cookies", () =>
+    Effect.gen(function* () {
+      const cookies = Cookies.make(
+        Headers.make(new globalThis.Headers()).service,
+      );
+      const exit = yield* Effect.exit(cookies.set("a;b", "1"));
+      expect(Exit.hasDies(exit)).toBe(true);
+    }),
+  );
+
+  it.effect("reads the cookies of the request", () =>
+    Effect.gen(function* () {
+      const response = yield* request(
+        handlerWith([]),
+        "GET",
+        "/cookies",
+        "theme=dark; lang=en",
+      );
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        theme: "dark",
+        lang: "en",
+      });
+    }),
+  );
+
+  it.effect("sets and deletes cookies with their attributes", () =>
+    Effect.gen(function* () {
+      const response = yield* request(
+        handlerWith([]),
+        "POST",
+        "/preferences",
+        "theme=dark",
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.getSetCookie()).toEqual([
+        "theme=light; Path=/app; Domain=example.com; Max-Age=86400; SameSite=None; Secure; HttpOnly; Partitioned",
+        "legacy=; Path=/app; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      ]);
+    }),
+  );
+});
+
+describe.concurrent("Cookies.typed", () => {
+  it.effect("round-trips signed and unsigned values", () =>
+    Effect.gen(function* () {
+      const handler = handlerWith(["secret-1"]);
+      const login = yield* request(handler, "POST", "/login");
+      const [session, theme] = login.headers.getSetCookie();
+      expect(session).toMatch(
+        /^session=.+; Path=\/; Max-Age=3600; SameSite=Lax; HttpOnly$/,
+      );
+      expect(theme).toBe("theme=%22dark%22; Path=/");
+
+      const me = yield* request(handler, "GET", "/me", cookieHeader(login));
+      expect(yield* Effect.promise(() => me.json())).toEqual({
+        userId: "ada",
+        theme: "dark",
+      });
+    }),
+  );
+
+  it.effect("ignores tampered, invalid and unsigned values", () =>
+    Effect.gen(function* () {
+      const handler = handlerWith(["secret-1"]);
+      const login = yield* request(handler, "POST", "/login");
+      const signed = Cookies.parse(cookieHeader(login)).session!;
+      const [value, signature] = [
+        signed.slice(0, signed.lastIndexOf(".")),
+        signed.slice(signed.lastIndexOf(".") + 1),
+      ];
+      const tampered = value.replace("false", "true");
+
+      for (const cookie of [
+        `session=${encodeURIComponent(`${tampered}.${signature}`)}`,
+        `session=${encodeURIComponent(value)}`,
+        `session=${encodeURIComponent(`${value}.!!!`)}`,
+        "theme=%22blue%22",
+        "theme=not-json",
+      ]) {
+        const me = yield* request(handler, "GET", "/me", cookie);
+        expect(yield* Effect.promise(() => me.json())).toEqual({});
+      }
+    }),
+  );
+
+  it.effect("verifies cookies signed with an older secret", () =>
+    Effect.gen(function* () {
+      const login = yield* request(handlerWith(["old"]), "POST", "/login");
+
+      const rotated = yield* request(
+        handlerWith(["new", "old"]),
+        "GET",
+        "/me",
+        cookieHeader(login),
+      );
+      expect(yield* Effect.promise(() => rotated.json())).toMatchObject({
+        userId: "ada",
+      });
+
+      const dropped = yield* request(
+        handlerWith(["new"]),
+        "GET",
+        "/me",
+        cookieHeader(login),
+      );
+      expect(yield* Effect.promise(() => dropped.json())).toEqual({
+        theme: "dark",
+      });
+    }),
+  );
+
+  it("requires the secrets only for signed cookies", () => {
+    type Services = Router.Requirements<typeof router>;
+    const exact: [Services] extends [Cookies.Secrets]
+      ? [Cookies.Secrets] extends [Services]
+        ? true
+        : false
+      : false = true;
+    expect(exact).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Cors from "../src/Cors.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+// Test errors
+class NotFoundError extends Route.Error(
+  "NotFoundError",
+  404,
+)({
+  message: Schema.String,
+}) {}
+
+// Test routes
+const getItem = Route.get(
+  "/items/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    success: Schema.Struct({ id: Schema.String }),
+    errors: [NotFoundError],
+  },
+  ({ path }) =>
+    path.id === "missing"
+      ? Effect.fail(new NotFoundError({ message: "Item not found" }))
+      : Effect.succeed({ id: path.id }),
+);
+
+const createItem = Route.post(
+  "/items",
+  {
+    body: Schema.Struct({ name: Schema.String }),
+    success: Schema.Struct({ id: Schema.String }).pipe(Route.status(201)),
+  },
+  () => Effect.succeed({ id: "1" }),
+);
+
+const options: Cors.CorsOptions = {
+  origin: ["https://app.example.com"],
+  credentials: true,
+  exposedHeaders: ["x-request-id"],
+  maxAge: 600,
+};
+const api = Router.make().add(getItem).add(createItem);
+const fetch = Handler.toFetch(
+  Router.make()
+    .add(api)
+    .add(Cors.preflight(api, options))
+    .use(Cors.make(options)),
+);
+
+const request = (path: string, init: RequestInit = {}) =>
+  Effect.promise(() => fetch(new Request(`http://localhost${path}`, init)));
+
+describe.concurrent("Cors", () => {
+  describe.concurrent("preflight", () => {
+    it.effect("answers preflights from allowed origins", () =>
+      Effect.gen(function* () {
+        const response = yield* request("/items", {
+          method: "OPTIONS",
+          headers: {
+            origin: "https://app.example.com",
+            "access-control-request-method": "POST",
+            "access-control-request-headers": "content-type",
+          },
+        });
+        expect(response.status).toBe(204);
+        expect(response.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+        expect(response.headers.get("access-control-allow-methods")).toBe(
+          "POST",
+        );
+        expect(response.headers.get("access-control-allow-headers")).toBe(
+          "content-type",
+        );
+        expect(response.headers.get("access-control-allow-credentials")).toBe(
+          "true",
+        );
+        expect(response.headers.get("access-control-max-age")).toBe("600");
+        expect(response.headers.get("vary")).toBe("Origin");
+      }),
+    );
+
+    it.effect("lists HEAD alongside GET", () =>
+      Effect.gen(function* () {
+        const response = yield* request("/items/1", {
+          method: "OPTIONS",
+          headers: { origin: "https://app.example.com" },
+        });
+        expect(response.headers.get("access-control-allow-methods")).toBe(
+          "GET, HEAD",
+        );
+      }),
+    );
+
+    it.effect("omits CORS headers for other origins", () =>
+      Effect.gen(function* () {
+        const response = yield* request("/items", {
+          method: "OPTIONS",
+          headers: { origin: "https://evil.example.com" },
+        });
+        expect(response.status).toBe(204);
+        expect(response.headers.get("access-control-allow-origin")).toBeNull();
+        expect(response.headers.get("access-control-allow-methods")).toBeNull();
+      }),
+    );
+  });
+
+  describe.concurrent("actual requests", () => {
+    it.effect("sets CORS headers on success responses", () =>
+      Effect.gen(function* () {
+        const response = yield* request("/items/1", {
+          headers: { origin: "https://app.example.com" },
+        });
+        expect(response.status).toBe(200);
+        expect(response.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+        expect(response.headers.get("access-control-expose-headers")).toBe(
+          "x-request-id",
+        );
+      }),
+    );
+
+    it.effect("sets CORS headers on error responses", () =>
+      Effect.gen(function* () {
+        const notFound = yield* request("/items/missing", {
+          headers: { origin: "https://app.example.com" },
+        });
+        expect(notFound.status).toBe(404);
+        expect(notFound.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+
+        const invalid = yield* request("/items", {
+          method: "POST",
+          headers: {
+            origin: "https://app.example.com",
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({}),
+        });
+        expect(invalid.status).toBe(400);
+        expect(invalid.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+      }),
+    );
+
+    it.effect("sets CORS headers on responses to unmatched requests", () =>
+      Effect.gen(function* () {
+        const headers = { origin: "https://app.example.com" };
+        const notFound = yield* request("/nope", { headers });
+        expect(notFound.status).toBe(404);
+        expect(notFound.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+
+        const notAllowed = yield* request("/items/1", {
+          method: "DELETE",
+          headers,
+        });
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get("access-control-allow-origin")).toBe(
+          "https://app.example.com",
+        );
+      }),
+    );
+
+    it.effect("omits CORS headers on responses for other origins", () =>
+      Effect.gen(function* () {
+        const response = yield* request("/items/1", {
+          headers: { origin: "https://evil.example.com" },
+        });
+        expect(response.status).toBe(200);
+        expect(response.headers.get("access-control-allow-origin")).toBeNull();
+      }),
+    );
+
+    it.effect("supports origin predicates", () =>
+      Effect.gen(function* () {
+        const predicateFetch = Handler.toFetch(
+          Router.make()
+            .add(getItem)
+            .use(
+              Cors.make({
+                origin: (origin) => origin.endsWith(".example.com"),
+              }),
+            ),
+        );
+        const response = yield* Effect.promise(() =>
+          predicateFetch(
+            new Request("http://localhost/items/1", {
+              headers: { origin: "https://admin.example.com" },
+            }),
+          ),
+        );
+        expect(response.headers.get("access-control-allow-origin")).toBe(
+          "https://admin.example.com",
+        );
+      }),
+    );
+
+    it.effect("allows any origin by default", () =>
+      Effect.gen(function* () {
+        const anyFetch = Handler.toFetch(
+          Router.make().add(getItem).use(Cors.make()),
+        );
+        const response = yield* Effect.promise(() =>
+          anyFetch(
+            new Request("http://localhost/items/1", {
+              headers: { origin: "https://other.example.org" },
+            }),
+          ),
+        );
+        expect(response.headers.get("access-control-allow-origin")).toBe("*");
+        expect(response.headers.get("vary")).toBeNull();
+      }),
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Docs from "../src/Docs.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+const getUser = Route.get(
+  "/users/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    success: Schema.Struct({ id: Schema.String }),
+  },
+  ({ path }) => Effect.succeed({ id: path.id }),
+);
+
+const api = Router.make().add(getUser);
+const router = Router.make()
+  .add(api)
+  .add(
+    Docs.routes(api, {
+      path: "/docs",
+      info: { title: "Users </script> API", version: "2.0.0" },
+    }),
+  );
+const fetch = Handler.toFetch(router);
+
+describe.concurrent("Docs", () => {
+  it.effect("keeps the documented routes working", () =>
+    Effect.gen(function* () {
+      const response = yield* Effect.promise(() =>
+        fetch(new Request("http://localhost/users/1")),
+      );
+      expect(response.status).toBe(200);
+    }),
+  );
+
+  it.effect("serves the OpenAPI document", () =>
+    Effect.gen(function* () {
+      const response = yield* Effect.promise(() =>
+        fetch(new Request("http://localhost/openapi.json")),
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("application/json");
+      const body = (yield* Effect.promise(() => response.json())) as {
+        openapi: string;
+        info: { version: string };
+        paths: Record<string, unknown>;
+      };
+      expect(body.openapi).toBe("3.1.0");
+      expect(body.info.version).toBe("2.0.0");
+      expect(Object.keys(body.paths)).toEqual(["/users/{id}"]);
+    }),
+  );
+
+  it.effect("serves a self-contained HTML page", () =>
+    Effect.gen(function* () {
+      const response = yield* Effect.promise(() =>
+        fetch(new Request("http://localhost/docs")),
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/html");
+      const page = yield* Effect.promise(() => response.text());
+      expect(page).toContain("<!doctype html>");
+      expect(page).toContain("Users &lt;/script&gt; API");
+      expect(page).toContain('href="./openapi.json"');
+      expect(page).not.toMatch(/<script[^>]+src=/);
+      expect(page).not.toMatch(/<link[^>]+href=/);
+      // The embedded document must not close its script element early
+      expect(page.match(/<\/script>/g)).toHaveLength(2);
+    }),
+  );
+
+  it.effect("links to the document when mounted under a prefix", () =>
+    Effect.gen(function* () {
+      const mounted = Handler.toFetch(
+        Router.make().mount(
+          "/api",
+          Docs.routes(api, { path: "/reference/", specPath: "/openapi.json" }),
+        ),
+      );
+      const page = yield* Effect.promise(() =>
+        mounted(new Request("http://localhost/api/reference/")).then(
+          (response) => response.text(),
+        ),
+      );
+      const href = page.match(/href="([^"]+)"/)![1]!;
+      expect(href).toBe("../openapi.json");
+
+      const url = new URL(href, "http://localhost/api/reference/");
+      const response = yield* Effect.promise(() =>
+        mounted(new Request(url.href)),
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("application/json");
+    }),
+  );
+});
@@ -0,0 +1,542 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
+import * as Schema from "effect/Schema";
+import * as ServiceMap from "effect/ServiceMap";
+import * as Client from "../src/Client.js";
+import * as Gate from "../src/Gate.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+// Test errors
+class UnauthorizedError extends Route.Error(
+  "UnauthorizedError",
+  401,
+)({
+  message: Schema.String,
+}) {}
+
+class ForbiddenError extends Route.Error(
+  "ForbiddenError",
+  403,
+)({
+  message: Schema.String,
+}) {}
+
+// An org-scoped gate: only members of "acme" get through
+const OrgGate = Gate.make(
+  {
+    path: Schema.Struct({ orgId: Schema.String }),
+    headers: Schema.Struct({ "x-user": Schema.String }),
+    errors: [ForbiddenError],
+  },
+  Effect.fnUntraced(function* ({ path, headers }) {
+    if (path.orgId !== "acme") {
+      return yield* new ForbiddenError({
+        message: `${headers["x-user"]} is not a member of ${path.orgId}`,
+      });
+    }
+    return { orgId: path.orgId, user: headers["x-user"] };
+  }),
+);
+
+const getMember = OrgGate.add(
+  Route.get(
+    "/orgs/:orgId/members/:memberId",
+    {
+      path: Schema.Struct({ memberId: Schema.NumberFromString }),
+      query: Schema.Struct({ expand: Schema.optionalKey(Schema.String) }),
+      success: Schema.Struct({
+        orgId: Schema.String,
+        memberId: Schema.Number,
+        requestedBy: Schema.String,
+      }),
+    },
+    Effect.fnUntraced(function* ({ path }) {
+      const { orgId, user } = yield* OrgGate.Context;
+      return { orgId, memberId: path.memberId, requestedBy: user };
+    }),
+  ),
+);
+
+const router = Router.make().add(getMember);
+const handler = Handler.toFetch(router);
+
+const client = Client.make(router, {
+  baseUrl: "http://localhost",
+  fetch: (url, init) => handler(new Request(url, init)),
+});
+
+describe.concurrent("Gate inputs", () => {
+  it.effect("passes the validated gate inputs to the gate handler", () =>
+    Effect.gen(function* () {
+      const member = yield* client.orgs.members.get({
+        path: { orgId: "acme", memberId: "7" },
+        query: {},
+        headers: { "x-user": "ada" },
+      });
+      expect(member).toEqual({
+        orgId: "acme",
+        memberId: 7,
+        requestedBy: "ada",
+      });
+
+      const error = yield* Effect.flip(
+        client.orgs.members.get({
+          path: { orgId: "globex", memberId: "7" },
+          query: {},
+          headers: { "x-user": "ada" },
+        }),
+      );
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error).toMatchObject({ message: "ada is not a member of globex" });
+    }),
+  );
+
+  it.effect("rejects invalid gate inputs before running the gate", () =>
+    Effect.gen(function* () {
+      const response = yield* Effect.promise(() =>
+        handler(new Request("http://localhost/orgs/acme/members/7")),
+      );
+      expect(response.status).toBe(400);
+      const body = (yield* Effect.promise(() => response.json())) as {
+        error: { location: string };
+      };
+      expect(body.error.location).toBe("headers");
+    }),
+  );
+
+  it.effect("validates the route's inputs before running the gate", () =>
+    Effect.gen(function* () {
+      const runs: Array<string> = [];
+      const CountingGate = Gate.make({}, () =>
+        Effect.sync(() => {
+          runs.push("gate");
+        }),
+      );
+      const counted = Handler.toFetch(
+        Router.make().add(
+          CountingGate.add(
+            Route.get(
+              "/counted",
+              {
+                query: Schema.Struct({ page: Schema.FiniteFromString }),
+                success: Schema.Void,
+              },
+              () => Effect.void,
+            ),
+          ),
+        ),
+      );
+
+      const invalid = yield* Effect.promise(() =>
+        counted(new Request("http://localhost/counted?page=abc")),
+      );
+      expect(invalid.status).toBe(400);
+      expect(runs).toEqual([]);
+
+      const valid = yield* Effect.promise(() =>
+        counted(new Request("http://localhost/counted?page=1")),
+      );
+      expect(valid.status).toBe(200);
+      expect(runs).toEqual(["gate"]);
+    }),
+  );
+
+  it.effect("keeps the checks and annotations of the route's schemas", () =>
+    Effect.gen(function* () {
+      const Range = Schema.Struct({
+        from: Schema.FiniteFromString,
+        to: Schema.FiniteFromString,
+      })
+        .annotate({ identifier: "Range" })
+        .check(
+          Schema.makeFilter(
+            (range) => range.from <= range.to || "from must not be after to",
+          ),
+        );
+      const ZoneGate = Gate.make(
+        { query: Schema.Struct({ zone: Schema.optionalKey(Schema.String) }) },
+        () => Effect.void,
+      );
+      const listEvents = ZoneGate.add(
+        Route.get(
+          "/events",
+          { query: Range, success: Schema.Void },
+          () => Effect.void,
+        ),
+      );
+      expect(listEvents.routes[0]!.config.query!.ast.annotations).toMatchObject(
+        { identifier: "Range" },
+      );
+
+      const ranged = Handler.toFetch(Router.make().add(listEvents));
+      const response = yield* Effect.promise(() =>
+        ranged(new Request("http://localhost/events?from=2&to=1&zone=UTC")),
+      );
+      expect(response.status).toBe(400);
+      expect(yield* Effect.promise(() => response.json())).toMatchObject({
+        error: {
+          location: "query",
+          issues: [{ message: "from must not be after to" }],
+        },
+      });
+    }),
+  );
+
+  it("merges the gate inputs into the route config", () => {
+    const [route] = router.routes;
+    expect(Object.keys(route!.config.path!.fields)).toEqual([
+      "orgId",
+      "memberId",
+    ]);
+
+    const document = Router.toOpenApi(router, {
+      title: "Orgs",
+      version: "1.0.0",
+    });
+    const operation = document.paths["/orgs/{orgId}/members/{memberId}"]!.get!;
+    expect(operation.parameters?.map((parameter) => parameter.name)).toEqual([
+      "orgId",
+      "memberId",
+      "expand",
+      "x-user",
+    ]);
+  });
+
+  it("refuses to merge into a route schema that is not a struct", () => {
+    const route = Route.get(
+      "/orgs/:orgId",
+      {
+        path: Schema.Record(Schema.String, Schema.String),
+        success: Schema.Void,
+      },
+      () => Effect.void,
+    );
+    expect(() => OrgGate.add(route)).toThrow(
+      "Cannot merge the gate's path schema into route GET /orgs/:orgId",
+    );
+  });
+});
+
+// Looks up the orgs a user belongs to
+class Memberships extends ServiceMap.Service<
+  Memberships,
+  { readonly orgs: (user: string) => ReadonlyArray<string> }
+>()("Memberships") {}
+
+const AuthGate = Gate.make(
+  {
+    headers: Schema.Struct({
+      authorization: Schema.optionalKey(Schema.String),
+    }),
+    errors: [UnauthorizedError],
+  },
+  Effect.fnUntraced(function* ({ headers }) {
+    if (!headers.authorization?.startsWith("Bearer ")) {
+      return yield* new UnauthorizedError({ message: "Missing token" });
+    }
+    return { user: headers.authorization.slice("Bearer ".length) };
+  }),
+);
+
+// Depends on the authenticated user from AuthGate
+const MemberGate = Gate.extend(
+  AuthGate,
+  {
+    path: Schema.Struct({ orgId: Schema.String }),
+    errors: [ForbiddenError],
+  },
+  Effect.fnUntraced(function* ({ path }) {
+    const { user } = yield* AuthGate.Context;
+    const memberships = yield* Memberships;
+    if (!memberships.orgs(user).includes(path.orgId)) {
+      return yield* new ForbiddenError({
+        message: `${user} is not a member of ${path.orgId}`,
+      });
+    }
+    return { orgId: path.orgId };
+  }),
+);
+
+const getProject = MemberGate.add(
+  Route.get(
+    "/orgs/:orgId/projects/:projectId",
+    {
+      path: Schema.Struct({ projectId: Schema.String }),
+      success: Schema.Struct({
+        orgId: Schema.String,
+        projectId: Schema.String,
+        requestedBy: Schema.String,
+      }),
+    },
+    Effect.fnUntraced(function* ({ path }) {
+      const { user } = yield* AuthGate.Context;
+      const { orgId } = yield* MemberGate.Context;
+      return { orgId, projectId: path.projectId, requestedBy: user };
+    }),
+  ),
+);
+
+const projectsRouter = Router.make().add(getProject);
+const projectsHandler = Handler.toFetch(
+  projectsRouter,
+  Layer.succeed(Memberships, {
+    orgs: (user) => (user === "ada" ? ["acme"] : []),
+  }),
+);
+
+const projectsClient = Client.make(projectsRouter, {
+  baseUrl: "http://localhost",
+  fetch: (url, init) => projectsHandler(new Request(url, init)),
+});
+
+describe.concurrent("Gate.extend", () => {
+  it.effect("provides the contexts of both gates, in order", () =>
+    Effect.gen(function* () {
+      const project = yield* projectsClient.orgs.projects.get({
+        path: { orgId: "acme", projectId: "rocket" },
+        headers: { authorization: "Bearer ada" },
+      });
+      expect(project).toEqual({
+        orgId: "acme",
+        projectId: "rocket",
+        requestedBy: "ada",
+      });
+    }),
+  );
+
+  it.effect("fails with the errors of either gate", () =>
+    Effect.gen(function* () {
+      const unauthorized = yield* Effect.flip(
+        projectsClient.orgs.projects.get({
+          path: { orgId: "acme", projectId: "rocket" },
+          headers: {},
+        }),
+      );
+      expect(unauthorized).toBeInstanceOf(UnauthorizedError);
+
+      const forbidden = yield* Effect.flip(
+        projectsClient.orgs.projects.get({
+          path: { orgId: "acme", projectId: "rocket" },
+          headers: { authorization: "Bearer grace" },
+        }),
+      );
+      expect(forbidden).toBeInstanceOf(ForbiddenError);
+      expect(forbidden).toMatchObject({
+        message: "grace is not a member of acme",
+      });
+    }),
+  );
+
+  it("merges the errors and inputs of both gates into the route", () => {
+    expect(getProject.routes[0]!.config.errors).toEqual([
+      UnauthorizedError,
+      ForbiddenError,
+    ]);
+    expect(Object.keys(MemberGate.config.headers!.fields)).toEqual([
+      "authorization",
+    ]);
+    expect(Object.keys(getProject.routes[0]!.config.path!.fields)).toEqual([
+      "orgId",
+      "projectId",
+    ]);
+  });
+
+  it("requires only the services the gates do not provide", () => {
+    type Services = Router.Requirements<typeof projectsRouter>;
+    const exact: [Services] extends [Memberships]
+      ? [Memberships] extends [Services]
+        ? true
+        : false
+      : false = true;
+    expect(exact).toBe(true);
+  });
+});
+
+const listProjects = Route.get(
+  "/projects",
+  { success: Schema.Array(Schema.String) },
+  Effect.fnUntraced(function* () {
+    const { user } = yield* AuthGate.Context;
+    return [`${user}'s project`];
+  }),
+);
+
+const getSettings = Route.get(
+  "/settings",
+  { success: Schema.Struct({ theme: Schema.String }) },
+  () => Effect.succeed({ theme: "dark" }),
+);
+
+const accountRouter = Router.make()
+  .add(listProjects)
+  .add(getSettings)
+  .use((next) =>
+    Effect.map(next, (response) => {
+      response.headers.set("x-section", "account");
+      return response;
+    }),
+  );
+
+const appRouter = Router.make().mount(
+  "/account",
+  Router.gate(AuthGate, accountRouter),
+);
+const appHandler = Handler.toFetch(appRouter);
+
+const appClient = Client.make(appRouter, {
+  baseUrl: "http://localhost",
+  fetch: (url, init) => appHandler(new Request(url, init)),
+});
+
+describe.concurrent("Router.gate", () => {
+  it.effect("runs the gate before every route of the router", () =>
+    Effect.gen(function* () {
+      const projects = yield* appClient.account.projects.get({
+        headers: { authorization: "Bearer ada" },
+      });
+      expect(projects).toEqual(["ada's project"]);
+
+      const error = yield* Effect.flip(
+        appClient.account.settings.get({ headers: {} }),
+      );
+      expect(error).toBeInstanceOf(UnauthorizedError);
+    }),
+  );
+
+  it.effect("keeps the router's middleware", () =>
+    Effect.gen(function* () {
+      const response = yield* Effect.promise(() =>
+        appHandler(new Request("http://localhost/account/settings")),
+      );
+      expect(response.status).toBe(401);
+      expect(response.headers.get("x-section")).toBe("account");
+    }),
+  );
+
+  it("merges the gate's errors and inputs into each route", () => {
+    for (const route of appRouter.routes) {
+      expect(route._tag).toBe("GatedRoute");
+      expect(route.config.errors).toEqual([UnauthorizedError]);
+      expect(Object.keys(route.config.headers!.fields)).toEqual([
+        "authorization",
+      ]);
+    }
+  });
+
+  it("refuses routes that already have a gate", () => {
+    expect(() =>
+      Router.gate(AuthGate, Router.make().add(getMember) as never),
+    ).toThrow(
+      "Cannot apply a gate to route GET /orgs/:orgId/members/:memberId, which already has one",
+    );
+  });
+});
+
+describe.concurrent("Gate after hooks", () => {
+  class QuotaError extends Route.Error(
+    "QuotaError",
+    429,
+  )({
+    message: Schema.String,
+  }) {}
+
+  const makeAuditedRouter = () => {
+    const log: Array<string> = [];
+    const AuditGate = Gate.make(
+      { errors: [QuotaError] },
+      () => Effect.succeed({ requestId: "req-1" }),
+      ({ exit, context, responseHeaders }) =>
+        Effect.gen(function* () {
+          log.push(
+            `${context.requestId} ${Exit.isSuccess(exit) ? "ok" : "failed"}`,
+          );
+          responseHeaders.set("x-request-id", context.requestId);
+          if (Exit.isSuccess(exit) && exit.value === "over quota") {
+            return yield* new QuotaError({ message: "Quota exceeded" });
+          }
+        }),
+    );
+    const ScopedGate = Gate.extend(
+      AuditGate,
+      {},
+      () => Effect.succeed({ scope: "read" }),
+      ({ context }) =>
+        Effect.gen(function* () {
+          const { requestId } = yield* AuditGate.Context;
+          log.push(`${requestId} ${context.scope}`);
+        }),
+    );
+    const router = Router.make()
+      .add(
+        AuditGate.add(
+          Route.get(
+            "/things/:id",
+            {
+              path: Schema.Struct({ id: Schema.FiniteFromString }),
+              success: Schema.String,
+              errors: [ForbiddenError],
+            },
+            ({ path }) =>
+              path.id === 0
+                ? Effect.fail(new ForbiddenError({ message: "Nope" }))
+                : Effect.succeed(path.id === 99 ? "over quota" : "thing"),
+          ),
+        ),
+      )
+      .add(
+        ScopedGate.add(
+          Route.get("/scoped", { success: Schema.String }, () =>
+            Effect.succeed("scoped"),
+          ),
+        ),
+      );
+    return { log, handler: Handler.toFetch(router) };
+  };
+
+  const fetchStatus = (handler: Handler.FetchHandler, path: string) =>
+    Effect.promise(() => handler(new Request(`http://localhost${path}`)));
+
+  it.effect("sees the outcome of the route and sets response headers", () =>
+    Effect.gen(function* () {
+      const { log, handler } = makeAuditedRouter();
+
+      const ok = yield* fetchStatus(handler, "/things/1");
+      expect(ok.status).toBe(200);
+      expect(ok.headers.get("x-request-id")).toBe("req-1");
+
+      const forbidden = yield* fetchStatus(handler, "/things/0");
+      expect(forbidden.status).toBe(403);
+      expect(forbidden.headers.get("x-request-id")).toBe("req-1");
+
+      // Requests failing validation never reach the gate or its hook
+      const invalid = yield* fetchStatus(handler, "/things/abc");
+      expect(invalid.status).toBe(400);
+
+      expect(log).toEqual(["req-1 ok", "req-1 failed"]);
+    }),
+  );
+
+  it.effect("turns a failing hook into the gate's error response", () =>
+    Effect.gen(function* () {
+      const { handler } = makeAuditedRouter();
+      const response = yield* fetchStatus(handler, "/things/99");
+      expect(response.status).toBe(429);
+      expect(yield* Effect.promise(() => response.json())).toMatchObject({
+        error: { _tag: "QuotaError", message: "Quota exceeded" },
+      });
+    }),
+  );
+
+  it.effect("runs the hooks of extended gates before their parents'", () =>
+    Effect.gen(function* () {
+      const { log, handler } = makeAuditedRouter();
+      const response = yield* fetchStatus(handler, "/scoped");
+      expect(response.status).toBe(200);
+      expect(log).toEqual(["req-1 read", "req-1 ok"]);
+    }),
+  );
+});
@@ -0,0 +1,36 @@
+import { RoutePattern } from "@remix-run/route-pattern";
+import { bench, describe } from "vitest";
+import * as Matcher from "../src/internal/matcher.js";
+
+// A REST-style API with 50 resources, 5 routes each
+const resources = Array.from({ length: 50 }, (_, i) => `resource${i}`);
+const patterns = resources.flatMap((resource) => [
+  `/${resource}`,
+  `/${resource}/:id`,
+  `/${resource}/:id/children`,
+  `/${resource}/:id/children/:childId`,
+  `/${resource}/files/*path`,
+]);
+
+const urls = resources.map(
+  (resource) => new URL(`/${resource}/42/children/7`, "http://localhost"),
+);
+
+const routePatterns = patterns.map((pattern) => new RoutePattern(pattern));
+const matcher = Matcher.make(
+  patterns.map((pattern) => ({ pattern, value: pattern })),
+);
+
+describe("match 250 routes", () => {
+  bench("linear RoutePattern scan", () => {
+    for (const url of urls) {
+      routePatterns.find((pattern) => pattern.match(url));
+    }
+  });
+
+  bench("trie matcher", () => {
+    for (const url of urls) {
+      matcher.match(url);
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "@effect/vitest";
+import { RoutePattern } from "@remix-run/route-pattern";
+import * as Matcher from "../src/internal/matcher.js";
+
+const patterns = [
+  "/",
+  "/users",
+  "/users/",
+  "/users/:id",
+  "/users/:id/posts",
+  "/users/:id/posts/:postId",
+  "/users/me",
+  "/users/:id/*",
+  "/files/*path",
+  "/files/:dir/*rest",
+  "/a/:b/c/:d",
+  "/v1/:version",
+  "/api/v1/items",
+  "/files/:name.json",
+  "/docs(/:page)",
+  "/search?q",
+  "/static/*",
+];
+
+const urls = [
+  "/",
+  "/users",
+  "/users/",
+  "/users/1",
+  "/users/me",
+  "/users/1/",
+  "/users/1/posts",
+  "/users/1/posts/",
+  "/users/1/posts/2",
+  "/users/1/posts/2/comments",
+  "/users/%20/posts",
+  "/users/caf%C3%A9",
+  "/Users/1",
+  "/users//posts",
+  "/users/1/anything/else",
+  "/files",
+  "/files/",
+  "/files/a",
+  "/files/a/b/c",
+  "/files/report.json",
+  "/a/1/c/2",
+  "/a/1/c",
+  "/a//c/2",
+  "/v1/",
+  "/v1/2",
+  "/api/v1/items",
+  "/api/v1/items/",
+  "/docs",
+  "/docs/intro",
+  "/search?q=1",
+  "/search",
+  "/static",
+  "/static/",
+  "/static/css/site.css",
+  "/nope",
+];
+
+const toUrl = (path: string) => new URL(path, "http://localhost");
+
+describe("Matcher", () => {
+  it("matches each pattern exactly like RoutePattern", () => {
+    for (const pattern of patterns) {
+      const matcher = Matcher.make([{ pattern, value: pattern }]);
+      const routePattern = new RoutePattern(pattern);
+      for (const path of urls) {
+        const url = toUrl(path);
+        const expected = routePattern.match(url);
+        const actual = matcher.match(url);
+        expect(
+          actual && { value: actual.value, params: { ...actual.params } },
+          `${pattern} against ${path}`,
+        ).toEqual(expected && { value: pattern, params: expected.params });
+      }
+    }
+  });
+
+  it("matches the same URLs as a linear scan", () => {
+    const matcher = Matcher.make(
+      patterns.map((pattern) => ({ pattern, value: pattern })),
+    );
+    const routePatterns = patterns.map((pattern) => new RoutePattern(pattern));
+    for (const path of urls) {
+      const url = toUrl(path);
+      const expected = routePatterns.some((pattern) => pattern.match(url));
+      expect(matcher.match(url) !== null, path).toBe(expected);
+    }
+  });
+
+  it("prefers static segments over params over wildcards", () => {
+    const matcher = Matcher.make([
+      { pattern: "/users/*rest", value: "wildcard" },
+      { pattern: "/users/:id", value: "param" },
+      { pattern: "/users/me", value: "static" },
+    ]);
+    expect(matcher.match(toUrl("/users/me"))?.value).toBe("static");
+    expect(matcher.match(toUrl("/users/1"))?.value).toBe("param");
+    expect(matcher.match(toUrl("/users/1/posts"))).toEqual({
+      value: "wildcard",
+      params: { rest: "1/posts" },
+    });
+  });
+
+  it("backtracks when a static branch has no match", () => {
+    const matcher = Matcher.make([
+      { pattern: "/users/me/settings", value: "settings" },
+      { pattern: "/users/:id/posts", value: "posts" },
+    ]);
+    expect(matcher.match(toUrl("/users/me/posts"))).toEqual({
+      value: "posts",
+      params: { id: "me" },
+    });
+  });
+
+  it("uses registration order for patterns of the same shape", () => {
+    const matcher = Matcher.make([
+      { pattern: "/users/:id", value: "first" },
+      { pattern: "/users/:name", value: "second" },
+    ]);
+    expect(matcher.match(toUrl("/users/1"))).toEqual({
+      value: "first",
+      params: { id: "1" },
+    });
+  });
+
+  it("ranks complex patterns between static segments and params", () => {
+    const matcher = Matcher.make([
+      { pattern: "/files/*path", value: "wildcard" },
+      { pattern: "/files/:id", value: "param" },
+      { pattern: "/files/:name.json", value: "json" },
+      { pattern: "/files/latest.json", value: "static" },
+    ]);
+    expect(matcher.match(toUrl("/files/latest.json"))?.value).toBe("static");
+    expect(matcher.match(toUrl("/files/report"))?.value).toBe("param");
+    expect(matcher.match(toUrl("/files/report.json"))).toEqual({
+      value: "json",
+      params: { name: "report" },
+    });
+    expect(matcher.match(toUrl("/files/a/b"))).toEqual({
+      value: "wildcard",
+      params: { path: "a/b" },
+    });
+  });
+});
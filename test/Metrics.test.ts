@@ -0,0 +1,130 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Handler from "../src/Handler.js";
+import * as Metrics from "../src/Metrics.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+class OrderNotFound extends Route.Error(
+  "OrderNotFound",
+  404,
+)({
+  id: Schema.String,
+}) {}
+
+const router = Router.make()
+  .add(
+    Route.get(
+      "/orders/:id",
+      {
+        path: Schema.Struct({ id: Schema.String }),
+        success: Schema.Struct({ id: Schema.String }),
+        errors: [OrderNotFound],
+      },
+      ({ path }) =>
+        path.id === "missing"
+          ? Effect.fail(new OrderNotFound({ id: path.id }))
+          : Effect.succeed({ id: path.id }),
+    ),
+  )
+  .add(Metrics.route());
+
+const handler = Handler.toFetch(router);
+
+const request = (path: string, method = "GET") =>
+  Effect.promise(() =>
+    handler(new Request(`http://localhost${path}`, { method })),
+  );
+
+describe("Metrics", () => {
+  it.effect("records request metrics by route pattern", () =>
+    Effect.gen(function* () {
+      yield* request("/orders/1");
+      yield* request("/orders/2");
+      yield* request("/orders/missing");
+      yield* request("/orders/3", "HEAD");
+      yield* request("/nowhere");
+
+      const response = yield* request("/metrics");
+      expect(response.headers.get("content-type")).toBe(
+        "text/plain; version=0.0.4; charset=utf-8",
+      );
+      const lines = (yield* Effect.promise(() => response.text())).split("\n");
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "# HELP http_server_requests_total Number of HTTP server requests",
+          "# TYPE http_server_requests_total counter",
+          'http_server_requests_total{method="GET",route="/orders/:id",status_class="2xx"} 2',
+          'http_server_requests_total{method="GET",route="/orders/:id",status_class="4xx",error_type="OrderNotFound"} 1',
+          'http_server_requests_total{method="GET",status_class="4xx"} 1',
+          // HEAD requests answered by the GET route keep their method
+          'http_server_requests_total{method="HEAD",route="/orders/:id",status_class="2xx"} 1',
+          'http_server_request_duration_seconds_count{method="HEAD",route="/orders/:id",status_class="2xx"} 1',
+          "# TYPE http_server_request_duration_seconds histogram",
+          'http_server_request_duration_seconds_bucket{method="GET",route="/orders/:id",status_class="2xx",le="+Inf"} 2',
+          'http_server_request_duration_seconds_count{method="GET",route="/orders/:id",status_class="2xx"} 2',
+          'http_server_response_body_size_bytes_bucket{method="GET",route="/orders/:id",status_class="2xx",le="100"} 2',
+          'http_server_response_body_size_bytes_sum{method="GET",route="/orders/:id",status_class="2xx"} 20',
+          "# TYPE http_server_active_requests gauge",
+          'http_server_active_requests{method="GET",route="/orders/:id"} 0',
+          'http_server_active_requests{method="HEAD",route="/orders/:id"} 0',
+          'http_server_active_requests{method="GET",route="/metrics"} 1',
+        ]),
+      );
+      // One +Inf bucket, even for boundaries built with Metric helpers
+      expect(
+        lines.filter((line) =>
+          line.startsWith(
+            'http_server_response_body_size_bytes_bucket{method="GET",route="/orders/:id",status_class="2xx",le="+Inf"}',
+          ),
+        ),
+      ).toHaveLength(1);
+      // Raw paths never become labels
+      expect(lines.some((line) => line.includes("/orders/1"))).toBe(false);
+    }),
+  );
+
+  it("renders snapshots in the Prometheus text format", () => {
+    expect(
+      Metrics.toPrometheus([
+        {
+          id: "jobs.done",
+          type: "Frequency",
+          description: undefined,
+          attributes: { queue: 'say "hi"\n' },
+          state: { occurrences: new Map([["email", 3]]) },
+        },
+        {
+          id: "latency",
+          type: "Summary",
+          description: "Job latency",
+          attributes: undefined,
+          state: {
+            quantiles: [
+              [0.5, 12],
+              [0.99, undefined],
+            ],
+            count: 3,
+            min: 1,
+            max: 20,
+            sum: 33,
+          },
+        },
+      ]),
+    ).toBe(
+      [
+        "# TYPE jobs_done counter",
+        'jobs_done{queue="say \\"hi\\"\\n",key="email"} 3',
+        "# HELP latency Job latency",
+        "# TYPE latency summary",
+        'latency{quantile="0.5"} 12',
+        'latency{quantile="0.99"} NaN',
+        "latency_sum 33",
+        "latency_count 3",
+        "",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as SchemaGetter from "effect/SchemaGetter";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+// Test schemas
+const User = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+});
+
+// Test errors
+class NotFoundError extends Route.Error(
+  "NotFoundError",
+  404,
+)({
+  message: Schema.String,
+}) {}
+
+class UnauthorizedError extends Route.Error("UnauthorizedError", 401)({}) {}
+
+const PlainTextUnauthorizedError = UnauthorizedError.pipe(
+  Schema.encodeTo(Schema.String, {
+    encode: SchemaGetter.transform(() => "Unauthorized"),
+    decode: SchemaGetter.transform(() => new UnauthorizedError({})),
+  }),
+  Route.contentType("text/plain"),
+);
+
+// Test routes
+const getUser = Route.get(
+  "/users/:id",
+  {
+    path: Schema.Struct({ id: Schema.String }),
+    query: Schema.Struct({ expand: Schema.optionalKey(Schema.String) }),
+    headers: Schema.Struct({ "x-tenant": Schema.String }),
+    success: User,
+    errors: [NotFoundError, PlainTextUnauthorizedError],
+  },
+  ({ path }) => Effect.succeed({ id: path.id, name: "John Doe" }),
+);
+
+const createUser = Route.post(
+  "/users",
+  {
+    body: Schema.Struct({ name: Schema.String }),
+    success: User.pipe(
+      Route.status(201),
+      Route.headers(Schema.Struct({ location: Schema.String })),
+    ),
+  },
+  ({ body }) =>
+    Effect.succeed({
+      body: { id: "1", name: body.name },
+      headers: { location: "/1" },
+    }),
+);
+
+const deleteUser = Route.del(
+  "/users/:id",
+  {
+    success: Schema.Void.pipe(Route.status(204)),
+  },
+  () => Effect.void,
+);
+
+const uploadFile = Route.post(
+  "/files",
+  {
+    body: Route.Stream,
+    success: Schema.Struct({ id: Schema.String }).pipe(Route.status(201)),
+  },
+  () => Effect.succeed({ id: "file" }),
+);
+
+const Imported = Schema.Struct({ imported: Schema.Number }).pipe(
+  Route.status(200),
+);
+const Accepted = Schema.Struct({ jobId: Schema.String }).pipe(
+  Route.status(202),
+);
+
+const importUsers = Route.post(
+  "/imports",
+  { success: [Imported, Accepted] },
+  () => Effect.succeed(Route.respond(Accepted, { jobId: "1" })),
+);
+
+const router = Router.make()
+  .add(getUser)
+  .add(createUser)
+  .add(deleteUser)
+  .add(uploadFile)
+  .add(importUsers);
+
+const document = Router.toOpenApi(router, {
+  title: "Users API",
+  version: "1.0.0",
+});
+
+describe.concurrent("Router.toOpenApi", () => {
+  it("describes the document", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual({ title: "Users API", version: "1.0.0" });
+    expect(Object.keys(document.paths)).toEqual([
+      "/users/{id}",
+      "/users",
+      "/files",
+      "/imports",
+    ]);
+  });
+
+  it("groups operations by path template", () => {
+    expect(Object.keys(document.paths["/users/{id}"]!)).toEqual([
+      "get",
+      "delete",
+    ]);
+  });
+
+  it("turns path, query and header schemas into parameters", () => {
+    const operation = document.paths["/users/{id}"]!.get!;
+    expect(operation.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+      {
+        name: "expand",
+        in: "query",
+        required: false,
+        schema: { type: "string" },
+      },
+      {
+        name: "x-tenant",
+        in: "header",
+        required: true,
+        schema: { type: "string" },
+      },
+    ]);
+  });
+
+  it("describes path parameters without a path schema", () => {
+    const operation = document.paths["/users/{id}"]!.delete!;
+    expect(operation.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+    ]);
+  });
+
+  it("describes JSON request bodies", () => {
+    const operation = document.paths["/users"]!.post!;
+    expect(operation.requestBody?.content["application/json"]?.schema).toEqual({
+      type: "object",
+      properties: { name: { type: "string" } },
+      required: ["name"],
+      additionalProperties: false,
+    });
+  });
+
+  it("describes stream request bodies as binary", () => {
+    const operation = document.paths["/files"]!.post!;
+    expect(operation.requestBody?.content).toEqual({
+      "application/octet-stream": {
+        schema: { type: "string", format: "binary" },
+      },
+    });
+  });
+
+  it("uses the success status and headers annotations", () => {
+    const response = document.paths["/users"]!.post!.responses["201"];
+    expect(response?.headers).toEqual({
+      location: { required: true, schema: { type: "string" } },
+    });
+    expect(response?.content?.["application/json"]).toBeDefined();
+  });
+
+  it("describes every success response of a route", () => {
+    const responses = document.paths["/imports"]!.post!.responses;
+    expect(Object.keys(responses)).toEqual(["200", "202"]);
+    expect(responses["202"]?.content?.["application/json"]?.schema).toEqual({
+      type: "object",
+      properties: { jobId: { type: "string" } },
+      required: ["jobId"],
+      additionalProperties: false,
+    });
+  });
+
+  it("omits content for void responses", () => {
+    const response = document.paths["/users/{id}"]!.delete!.responses["204"];
+    expect(response).toEqual({ description: "Success" });
+  });
+
+  it("wraps plain errors in { error: ... }", () => {
+    const response = document.paths["/users/{id}"]!.get!.responses["404"];
+    expect(response?.description).toBe("NotFoundError");
+    expect(response?.content?.["application/json"]?.schema).toMatchObject({
+      type: "object",
+      properties: {
+        error: {
+          type: "object",
+          properties: {
+            _tag: { type: "string", enum: ["NotFoundError"] },
+            message: { type: "string" },
+          },
+        },
+      },
+      required: ["error"],
+    });
+  });
+
+  it("describes request validation failures for routes with inputs", () => {
+    const getResponses = document.paths["/users/{id}"]!.get!.responses;
+    expect(getResponses["400"]?.description).toBe("RequestValidationError");
+    const deleteResponses = document.paths["/users/{id}"]!.delete!.responses;
+    expect(deleteResponses["400"]).toBeUndefined();
+  });
+
+  it("describes transformed errors by their encoded form", () => {
+    const response = document.paths["/users/{id}"]!.get!.responses["401"];
+    expect(response?.content).toEqual({
+      "text/plain": { schema: { type: "string" } },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Gate from "../src/Gate.js";
+import * as Handler from "../src/Handler.js";
+import * as RequestContext from "../src/RequestContext.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+class ForbiddenError extends Route.Error(
+  "ForbiddenError",
+  403,
+)({
+  message: Schema.String,
+}) {}
+
+// Shared code deep in the Effect graph, with no access to the handler input
+const describeRequest = Effect.gen(function* () {
+  const context = yield* RequestContext.RequestContext;
+  return {
+    requestId: context.requestId,
+    method: context.method,
+    pattern: context.pattern,
+    path: context.url.pathname,
+    params: context.params,
+  };
+});
+
+// A gate reading the route's annotations
+const RoleGate = Gate.make(
+  { errors: [ForbiddenError] },
+  Effect.fnUntraced(function* () {
+    const annotations = yield* RequestContext.annotations;
+    if (annotations.role === "admin") {
+      return yield* new ForbiddenError({ message: "Admins only" });
+    }
+  }),
+);
+
+const Description = Schema.Struct({
+  requestId: Schema.String,
+  method: Schema.String,
+  pattern: Schema.String,
+  path: Schema.String,
+  params: Schema.Record(Schema.String, Schema.UndefinedOr(Schema.String)),
+});
+
+const itemsRouter = Router.make()
+  .add(
+    Route.get(
+      "/items/:id",
+      {
+        path: Schema.Struct({ id: Schema.NumberFromString }),
+        success: Description,
+      },
+      () => describeRequest,
+    ),
+  )
+  .add(
+    RoleGate.add(
+      Route.del(
+        "/items/:id",
+        { success: Schema.Void, annotations: { role: "admin" } },
+        () => Effect.void,
+      ),
+    ),
+  )
+  .add(
+    RoleGate.add(
+      Route.post(
+        "/items/:id/views",
+        { success: Schema.Void, annotations: { role: "viewer" } },
+        () => Effect.void,
+      ),
+    ),
+  );
+
+const router = Router.make().mount("/api", itemsRouter);
+const handler = Handler.toFetch(router);
+
+const request = (path: string, init?: RequestInit) =>
+  Effect.promise(() => handler(new Request(`http://localhost${path}`, init)));
+
+describe.concurrent("RequestContext", () => {
+  it.effect("describes the request and the route it matched", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/api/items/42?full=true");
+      const body = yield* Effect.promise(() => response.json());
+      expect(body).toEqual({
+        requestId: expect.any(String),
+        method: "GET",
+        pattern: "/api/items/:id",
+        path: "/api/items/42",
+        params: { id: "42" },
+      });
+    }),
+  );
+
+  it.effect("uses the request's x-request-id header", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/api/items/1", {
+        headers: { "x-request-id": "req-123" },
+      });
+      const body = (yield* Effect.promise(() => response.json())) as {
+        requestId: string;
+      };
+      expect(body.requestId).toBe("req-123");
+    }),
+  );
+
+  it.effect("exposes the route's annotations to gates", () =>
+    Effect.gen(function* () {
+      const forbidden = yield* request("/api/items/1", { method: "DELETE" });
+      expect(forbidden.status).toBe(403);
+
+      const allowed = yield* request("/api/items/1/views", { method: "POST" });
+      expect(allowed.status).toBe(200);
+    }),
+  );
+
+  it("is provided for each request, so routers do not require it", () => {
+    type Services = Router.Requirements<typeof router>;
+    const none: [Services] extends [never] ? true : false = true;
+    expect(none).toBe(true);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "@effect/vitest";
 import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
 import * as Schema from "effect/Schema";
+import * as SchemaGetter from "effect/SchemaGetter";
+import * as ServiceMap from "effect/ServiceMap";
+import * as Gate from "../src/Gate.js";
 import * as Handler from "../src/Handler.js";
 import * as Route from "../src/Route.js";
 import * as Router from "../src/Router.js";
@@ -90,8 +95,21 @@ const deleteUser = Route.del(
   }),
 );
 
+const search = Route.get(
+  "/search",
+  {
+    query: Schema.Struct({ sort: Schema.Literals(["asc", "desc"]) }),
+    success: Schema.Struct({ sort: Schema.String }),
+  },
+  ({ query }) => Effect.succeed({ sort: query.sort }),
+);
+
 // Build router and handler
-const router = Router.make().add(getUser).add(createUser).add(deleteUser);
+const router = Router.make()
+  .add(getUser)
+  .add(createUser)
+  .add(deleteUser)
+  .add(search);
 const fetch = Handler.toFetch(router);
 
 describe.concurrent("Router", () => {
@@ -152,6 +170,94 @@ describe.concurrent("Router", () => {
       }),
     );
 
+    it.effect("returns 405 with an Allow header for other methods", () =>
+      Effect.gen(function* () {
+        const response = yield* Effect.promise(() =>
+          fetch(new Request("http://localhost/users/1", { method: "PATCH" })),
+        );
+        expect(response.status).toBe(405);
+        expect(response.headers.get("allow")).toBe(
+          "GET, HEAD, DELETE, OPTIONS",
+        );
+        const body = yield* Effect.promise(() => response.json());
+        expect(body).toEqual({
+          error: {
+            _tag: "MethodNotAllowed",
+            method: "PATCH",
+            allow: ["GET", "HEAD", "DELETE", "OPTIONS"],
+          },
+        });
+      }),
+    );
+
+    it.effect("answers HEAD with the GET route without a body", () =>
+      Effect.gen(function* () {
+        const get = yield* Effect.promise(() =>
+          fetch(new Request("http://localhost/users/1")),
+        );
+        const getBody = yield* Effect.promise(() => get.text());
+
+        const response = yield* Effect.promise(() =>
+          fetch(new Request("http://localhost/users/1", { method: "HEAD" })),
+        );
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toBe("application/json");
+        expect(response.headers.get("content-length")).toBe(
+          String(new TextEncoder().encode(getBody).byteLength),
+        );
+        expect(yield* Effect.promise(() => response.text())).toBe("");
+      }),
+    );
+
+    it.effect("answers OPTIONS with the allowed methods", () =>
+      Effect.gen(function* () {
+        const response = yield* Effect.promise(() =>
+          fetch(new Request("http://localhost/users", { method: "OPTIONS" })),
+        );
+        expect(response.status).toBe(204);
+        expect(response.headers.get("allow")).toBe("POST, OPTIONS");
+      }),
+    );
+
+    it.effect("lets explicit HEAD and OPTIONS routes override", () =>
+      Effect.gen(function* () {
+        const overrideFetch = Handler.toFetch(
+          Router.make()
+            .add(getUser)
+            .add(
+              Route.head(
+                "/users/:id",
+                { success: Schema.Void.pipe(Route.status(204)) },
+                () => Effect.void,
+              ),
+            )
+            .add(
+              Route.options(
+                "/users/:id",
+                { success: Schema.Struct({ methods: Schema.String }) },
+                () => Effect.succeed({ methods: "GET" }),
+              ),
+            ),
+        );
+
+        const head = yield* Effect.promise(() =>
+          overrideFetch(
+            new Request("http://localhost/users/1", { method: "HEAD" }),
+          ),
+        );
+        expect(head.status).toBe(204);
+
+        const options = yield* Effect.promise(() =>
+          overrideFetch(
+            new Request("http://localhost/users/1", { method: "OPTIONS" }),
+          ),
+        );
+        expect(options.status).toBe(200);
+        const body = yield* Effect.promise(() => options.json());
+        expect(body).toEqual({ methods: "GET" });
+      }),
+    );
+
     it.effect("returns 404 for unmatched routes", () =>
       Effect.gen(function* () {
         const response = yield* Effect.promise(() =>
@@ -219,7 +325,20 @@ describe.concurrent("Router", () => {
             }),
           ),
         );
-        expect(response.status).toBe(500); // Schema validation fails
+        expect(response.status).toBe(400);
+        const body = (yield* Effect.promise(() => response.json())) as {
+          error: {
+            _tag: string;
+            location: string;
+            issues: Array<{ path: Array<string | number>; message: string }>;
+          };
+        };
+        expect(body.error._tag).toBe("RequestValidationError");
+        expect(body.error.location).toBe("body");
+        expect(body.error.issues.map((issue) => issue.path)).toEqual([
+          ["name"],
+          ["email"],
+        ]);
       }),
     );
 
@@ -234,7 +353,194 @@ describe.concurrent("Router", () => {
             }),
           ),
         );
+        expect(response.status).toBe(400);
+        const body = (yield* Effect.promise(() => response.json())) as {
+          error: { _tag: string; location: string; message: string };
+        };
+        expect(body.error).toEqual({
+          _tag: "RequestValidationError",
+          location: "body",
+          message: "Failed to parse JSON body",
+          issues: [],
+        });
+      }),
+    );
+
+    it.effect("reports which part of the request failed", () =>
+      Effect.gen(function* () {
+        const response = yield* Effect.promise(() =>
+          fetch(new Request("http://localhost/search?sort=sideways")),
+        );
+        expect(response.status).toBe(400);
+        const body = (yield* Effect.promise(() => response.json())) as {
+          error: {
+            location: string;
+            issues: Array<{ path: Array<string | number> }>;
+          };
+        };
+        expect(body.error.location).toBe("query");
+        expect(body.error.issues[0]?.path).toEqual(["sort"]);
+      }),
+    );
+
+    it.effect("uses the router's validation error schema", () =>
+      Effect.gen(function* () {
+        const ProblemValidationError = Route.RequestValidationError.pipe(
+          Schema.encodeTo(
+            Schema.Struct({ title: Schema.String, status: Schema.Number }),
+            {
+              encode: SchemaGetter.transform((error) => ({
+                title: error.message,
+                status: 400,
+              })),
+              decode: SchemaGetter.transform(
+                (problem) =>
+                  new Route.RequestValidationError({
+                    location: "body",
+                    message: problem.title,
+                    issues: [],
+                  }),
+              ),
+            },
+          ),
+          Route.contentType("application/problem+json"),
+        );
+        const problemFetch = Handler.toFetch(
+          Router.make({ validationError: ProblemValidationError }).add(
+            createUser,
+          ),
+        );
+
+        const response = yield* Effect.promise(() =>
+          problemFetch(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({ invalid: "body" }),
+            }),
+          ),
+        );
+        expect(response.status).toBe(400);
+        expect(response.headers.get("content-type")).toBe(
+          "application/problem+json",
+        );
+        const body = yield* Effect.promise(() => response.json());
+        expect(body).toEqual({ title: "Invalid request body", status: 400 });
+      }),
+    );
+  });
+
+  describe.concurrent("multiple success responses", () => {
+    const Updated = User.pipe(Route.status(200));
+    const Created = User.pipe(Route.status(201));
+
+    const upsertUser = Route.put(
+      "/users/:id",
+      {
+        path: Schema.Struct({ id: Schema.String }),
+        body: Schema.Struct({ name: Schema.String, email: Schema.String }),
+        success: [Updated, Created],
+      },
+      ({ path, body }) => {
+        const user = { id: path.id, ...body };
+        return Effect.succeed(
+          path.id === "1"
+            ? Route.respond(Updated, user)
+            : Route.respond(Created, user, {
+                headers: { location: `/users/${path.id}` },
+              }),
+        );
+      },
+    );
+
+    const upsertFetch = Handler.toFetch(Router.make().add(upsertUser));
+
+    const put = (id: string) =>
+      Effect.promise(() =>
+        upsertFetch(
+          new Request(`http://localhost/users/${id}`, {
+            method: "PUT",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ name: "Jane", email: "jane@example.com" }),
+          }),
+        ),
+      );
+
+    it.effect("responds with the status of the chosen schema", () =>
+      Effect.gen(function* () {
+        const updated = yield* put("1");
+        expect(updated.status).toBe(200);
+
+        const created = yield* put("2");
+        expect(created.status).toBe(201);
+        expect(created.headers.get("location")).toBe("/users/2");
+        const body = yield* Effect.promise(() => created.json());
+        expect(body).toEqual({
+          id: "2",
+          name: "Jane",
+          email: "jane@example.com",
+        });
+      }),
+    );
+  });
+
+  describe.concurrent("response encoding", () => {
+    const Event = Schema.Struct({
+      name: Schema.String,
+      at: Schema.Date,
+      attendees: Schema.BigInt,
+    });
+
+    const encodingFetch = Handler.toFetch(
+      Router.make()
+        .add(
+          Route.get("/event", { success: Event }, () =>
+            Effect.succeed({
+              name: "launch",
+              at: new Date("2024-01-01T00:00:00.000Z"),
+              attendees: 42n,
+            }),
+          ),
+        )
+        .add(
+          Route.get("/broken", { success: Event }, () =>
+            Effect.succeed({
+              name: "launch",
+              at: "not a date",
+              attendees: 42n,
+            } as never),
+          ),
+        ),
+    );
+
+    it.effect("encodes success bodies through the success schema", () =>
+      Effect.gen(function* () {
+        const response = yield* Effect.promise(() =>
+          encodingFetch(new Request("http://localhost/event")),
+        );
+        expect(response.status).toBe(200);
+        const body = yield* Effect.promise(() => response.json());
+        expect(body).toEqual({
+          name: "launch",
+          at: "2024-01-01T00:00:00.000Z",
+          attendees: "42",
+        });
+      }),
+    );
+
+    it.effect("returns 500 when the success body fails to encode", () =>
+      Effect.gen(function* () {
+        const response = yield* Effect.promise(() =>
+          encodingFetch(new Request("http://localhost/broken")),
+        );
         expect(response.status).toBe(500);
+        const body = (yield* Effect.promise(() => response.json())) as {
+          error: { _tag: string; message: string };
+        };
+        expect(body.error._tag).toBe("InternalServerError");
+        expect(body.error.message).toContain(
+          "Failed to encode success response",
+        );
       }),
     );
   });
@@ -283,3 +589,386 @@ describe.concurrent("Router.prefix", () => {
     }),
   );
 });
+
+describe.concurrent("Router.mount", () => {
+  const usersRouter = Router.make().add(getUser).add(deleteUser);
+
+  it.effect("serves the mounted routes under the prefix", () =>
+    Effect.gen(function* () {
+      const mounted = Handler.toFetch(
+        Router.make().add(createUser).mount("/accounts", usersRouter),
+      );
+
+      const response = yield* Effect.promise(() =>
+        mounted(new Request("http://localhost/accounts/users/1")),
+      );
+      expect(response.status).toBe(200);
+
+      const unprefixed = yield* Effect.promise(() =>
+        mounted(new Request("http://localhost/users/1")),
+      );
+      expect(unprefixed.status).toBe(404);
+    }),
+  );
+
+  it("keeps the route types with the prefixed patterns", () => {
+    const router = Router.make().mount("/accounts", usersRouter);
+    const patterns: ReadonlyArray<"/accounts/users/:id"> = router.routes.map(
+      (route) => route.pattern,
+    );
+    expect(patterns).toEqual(["/accounts/users/:id", "/accounts/users/:id"]);
+  });
+
+  it("composes with prefix", () => {
+    const router = Router.make()
+      .prefix("/api")
+      .mount("/accounts", usersRouter)
+      .add(createUser)
+      .prefix("/v1");
+    expect(router.routes.map((route) => route.pattern)).toEqual([
+      "/v1/api/accounts/users/:id",
+      "/v1/api/accounts/users/:id",
+      "/v1/api/users",
+    ]);
+  });
+
+  it("rejects conflicting routes", () => {
+    const router = Router.make().mount("/accounts", usersRouter);
+    // @ts-expect-error - conflicts with GET /accounts/users/:id
+    expect(() => router.mount("/accounts", usersRouter)).toThrow(
+      Router.RouteConflictError,
+    );
+    expect(router.mount("/admin", usersRouter).routes).toHaveLength(4);
+  });
+});
+
+describe.concurrent("Router.use", () => {
+  const fetchWith = (handler: Handler.FetchHandler, path: string) =>
+    Effect.promise(() => handler(new Request(`http://localhost${path}`)));
+
+  it.effect("runs middleware around the request, first added outermost", () =>
+    Effect.gen(function* () {
+      const log: Array<string> = [];
+      const trace =
+        (name: string): Router.Middleware =>
+        (next) =>
+          Effect.gen(function* () {
+            log.push(`${name}:before`);
+            const response = yield* next;
+            log.push(`${name}:after ${response.status}`);
+            return response;
+          });
+
+      const router = Router.make()
+        .add(getUser)
+        .use(trace("outer"))
+        .use(trace("inner"));
+      yield* fetchWith(Handler.toFetch(router), "/users/1");
+      expect(log).toEqual([
+        "outer:before",
+        "inner:before",
+        "inner:after 200",
+        "outer:after 200",
+      ]);
+    }),
+  );
+
+  it.effect("wraps unmatched requests and error responses", () =>
+    Effect.gen(function* () {
+      const router = Router.make()
+        .add(getUser)
+        .use((next, request) =>
+          Effect.map(next, (response) => {
+            response.headers.set("x-path", new URL(request.url).pathname);
+            return response;
+          }),
+        );
+
+      const notFound = yield* fetchWith(Handler.toFetch(router), "/nope");
+      expect(notFound.status).toBe(404);
+      expect(notFound.headers.get("x-path")).toBe("/nope");
+
+      const missingUser = yield* fetchWith(
+        Handler.toFetch(router),
+        "/users/999",
+      );
+      expect(missingUser.status).toBe(404);
+      expect(missingUser.headers.get("x-path")).toBe("/users/999");
+    }),
+  );
+
+  it.effect("can rewrite responses and answer without calling next", () =>
+    Effect.gen(function* () {
+      const router = Router.make()
+        .add(getUser)
+        .use((next, request) =>
+          request.headers.has("x-maintenance")
+            ? Effect.succeed(
+                new Response("Down for maintenance", { status: 503 }),
+              )
+            : Effect.map(next, (response) =>
+                response.status === 404
+                  ? new Response("Nothing here", { status: 404 })
+                  : response,
+              ),
+        );
+
+      const maintenance = yield* Effect.promise(() =>
+        Handler.toFetch(router)(
+          new Request("http://localhost/users/1", {
+            headers: { "x-maintenance": "1" },
+          }),
+        ),
+      );
+      expect(maintenance.status).toBe(503);
+
+      const notFound = yield* fetchWith(Handler.toFetch(router), "/users/999");
+      expect(yield* Effect.promise(() => notFound.text())).toBe("Nothing here");
+    }),
+  );
+
+  it.effect("keeps the middleware of mounted routers on their routes", () =>
+    Effect.gen(function* () {
+      const tag =
+        (value: string): Router.Middleware =>
+        (next) =>
+          Effect.map(next, (response) => {
+            response.headers.append("x-middleware", value);
+            return response;
+          });
+
+      const accounts = Router.make().add(getUser).use(tag("accounts"));
+      const router = Router.make()
+        .add(createUser)
+        .mount("/accounts", accounts)
+        .use(tag("root"));
+
+      const mounted = yield* fetchWith(
+        Handler.toFetch(router),
+        "/accounts/users/1",
+      );
+      expect(mounted.headers.get("x-middleware")).toBe("accounts, root");
+
+      const other = yield* fetchWith(Handler.toFetch(router), "/users");
+      expect(other.headers.get("x-middleware")).toBe("root");
+    }),
+  );
+
+  it.effect("hands mounted middleware a 500 for bodies failing to encode", () =>
+    Effect.gen(function* () {
+      const seen: Array<string> = [];
+      const broken = Route.get(
+        "/broken",
+        { success: Schema.Struct({ count: Schema.Number }) },
+        // The handler breaks its own success schema
+        () => Effect.succeed({ count: "many" } as never),
+      );
+      const reports = Router.make()
+        .add(broken)
+        .use((next) =>
+          Effect.onExit(next, (exit) =>
+            Effect.sync(() => {
+              seen.push(
+                Exit.isSuccess(exit) ? String(exit.value.status) : "defect",
+              );
+            }),
+          ),
+        );
+
+      const response = yield* fetchWith(
+        Handler.toFetch(Router.make().mount("/reports", reports)),
+        "/reports/broken",
+      );
+      expect(response.status).toBe(500);
+      expect(seen).toEqual(["500"]);
+    }),
+  );
+
+  it.effect("turns middleware defects into a 500", () =>
+    Effect.gen(function* () {
+      const router = Router.make()
+        .add(getUser)
+        .use(() => Effect.die(new Error("Middleware exploded")));
+
+      const response = yield* fetchWith(Handler.toFetch(router), "/users/1");
+      expect(response.status).toBe(500);
+    }),
+  );
+});
+
+describe("Handler.toFetch with a Layer", () => {
+  class Greeter extends ServiceMap.Service<
+    Greeter,
+    { readonly greet: (name: string) => string }
+  >()("test/Greeter") {}
+
+  class Tenant extends ServiceMap.Service<Tenant, { readonly id: string }>()(
+    "test/Tenant",
+  ) {}
+
+  const greet = Route.get(
+    "/greet/:name",
+    {
+      path: Schema.Struct({ name: Schema.String }),
+      success: Schema.String,
+    },
+    ({ path }) =>
+      Greeter.use((greeter) => Effect.succeed(greeter.greet(path.name))),
+  );
+
+  const tenantGate = Gate.make(
+    {},
+    Effect.fnUntraced(function* () {
+      return { tenant: (yield* Tenant).id };
+    }),
+  );
+
+  const whoami = Route.get(
+    "/whoami",
+    { success: Schema.String },
+    Effect.fnUntraced(function* () {
+      const { tenant } = yield* tenantGate.Context;
+      return tenant;
+    }),
+  );
+
+  const router = Router.make().add(greet).add(tenantGate.add(whoami));
+
+  it("requires a Layer for the router's services", () => {
+    type Services = Router.Requirements<typeof router>;
+    const exact: [Services] extends [Greeter | Tenant]
+      ? [Greeter | Tenant] extends [Services]
+        ? true
+        : false
+      : false = true;
+    expect(exact).toBe(true);
+
+    // @ts-expect-error - Greeter and Tenant are not provided
+    Handler.toFetch(router);
+    // @ts-expect-error - Tenant is not provided
+    Handler.toFetch(router, Layer.succeed(Greeter, { greet: () => "" }));
+  });
+
+  it.effect("builds the Layer once and releases it on dispose", () =>
+    Effect.gen(function* () {
+      const events: Array<string> = [];
+      const layer = Layer.mergeAll(
+        Layer.effect(Greeter)(
+          Effect.acquireRelease(
+            Effect.sync(() => {
+              events.push("acquire");
+              return { greet: (name: string) => `Hello, ${name}!` };
+            }),
+            () => Effect.sync(() => events.push("release")),
+          ),
+        ),
+        Layer.succeed(Tenant, { id: "acme" }),
+      );
+
+      const handler = Handler.toFetch(router, layer);
+      const first = yield* Effect.promise(() =>
+        handler(new Request("http://localhost/greet/Ada")),
+      );
+      const second = yield* Effect.promise(() =>
+        handler(new Request("http://localhost/whoami")),
+      );
+      expect(yield* Effect.promise(() => first.json())).toBe("Hello, Ada!");
+      expect(yield* Effect.promise(() => second.json())).toBe("acme");
+      expect(events).toEqual(["acquire"]);
+
+      yield* Effect.promise(() => handler.dispose());
+      expect(events).toEqual(["acquire", "release"]);
+    }),
+  );
+});
+
+describe.concurrent("Router.add conflicts", () => {
+  const getById = Route.get(
+    "/users/:userId",
+    { success: Schema.Void },
+    () => Effect.void,
+  );
+
+  it("rejects routes that match the same requests as an existing route", () => {
+    const router = Router.make().add(getUser);
+    // @ts-expect-error - conflicts with GET /users/:id
+    expect(() => router.add(getById)).toThrow(Router.RouteConflictError);
+    // @ts-expect-error - duplicate of GET /users/:id
+    expect(() => router.add(getUser)).toThrow(
+      "Route GET /users/:id conflicts with GET /users/:id",
+    );
+  });
+
+  it("describes both routes", () => {
+    const error = (() => {
+      try {
+        // @ts-expect-error - conflicts with GET /users/:id
+        Router.make().add(getUser).add(Router.make().add(getById));
+      } catch (error) {
+        return error as Router.RouteConflictError;
+      }
+    })();
+    expect(error?.route).toMatchObject({ pattern: "/users/:userId" });
+    expect(error?.existing).toBe(getUser);
+  });
+
+  it("allows other methods and more specific patterns", () => {
+    const getMe = Route.get(
+      "/users/me",
+      { success: Schema.Void },
+      () => Effect.void,
+    );
+    const router = Router.make().add(getUser).add(deleteUser).add(getMe);
+    expect(router.routes).toHaveLength(3);
+  });
+
+  it("rejects routes shadowed by a pattern with optional groups", () => {
+    const page = Route.get(
+      "/docs(/:page)",
+      { success: Schema.Void },
+      () => Effect.void,
+    );
+    const getDoc = Route.get(
+      "/docs/:id",
+      { success: Schema.Void },
+      () => Effect.void,
+    );
+    const getIndex = Route.get(
+      "/docs",
+      { success: Schema.Void },
+      () => Effect.void,
+    );
+
+    // The optional group is tried before params, whatever the order
+    expect(() => Router.make().add(page).add(getDoc)).toThrow(
+      "Both match the same requests, so GET /docs/:id would never be reached",
+    );
+    expect(() => Router.make().add(getDoc).add(page)).toThrow(
+      "GET /docs(/:page) matches all the requests of GET /docs/:id first, so GET /docs/:id would never be reached",
+    );
+    // Static patterns are tried first, so both stay reachable
+    expect(Router.make().add(page).add(getIndex).routes).toHaveLength(2);
+  });
+
+  it("leaves routes with generic patterns to the runtime check", () => {
+    const pair = <A extends Route.PathInput, B extends Route.PathInput>(
+      a: A,
+      b: B,
+    ) =>
+      Router.make()
+        .add(Route.get(a, { success: Schema.Void }, () => Effect.void))
+        .add(Route.get(b, { success: Schema.Void }, () => Effect.void));
+    expect(pair("/a", "/b").routes).toHaveLength(2);
+    expect(() => pair("/a", "/a")).toThrow(Router.RouteConflictError);
+  });
+
+  it("checks routes added through prefixed routers", () => {
+    const v1 = Router.make().add(getUser).prefix("/v1");
+    const v2 = Router.make().add(getUser).prefix("/v2");
+    expect(Router.make().add(v1).add(v2).routes).toHaveLength(2);
+    // @ts-expect-error - duplicate of GET /v1/users/:id
+    expect(() => Router.make().add(v1).add(v1)).toThrow(
+      Router.RouteConflictError,
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Client from "../src/Client.js";
+import * as Gate from "../src/Gate.js";
+import * as Handler from "../src/Handler.js";
+import * as OpenApi from "../src/OpenApi.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+const Report = Schema.Struct({ id: Schema.String });
+
+/** Handlers that got to run past their timeout */
+const finished: Array<string> = [];
+
+/**
+ * A route whose handler takes `delay` milliseconds.
+ */
+const slowRoute = <const P extends Route.PathInput>(
+  pattern: P,
+  delay: number,
+  timeout?: Route.Timeout,
+) =>
+  Route.get(
+    pattern,
+    { success: Report, ...(timeout !== undefined ? { timeout } : {}) },
+    () =>
+      Effect.as(
+        Effect.andThen(
+          Effect.sleep(delay),
+          Effect.sync(() => finished.push(pattern)),
+        ),
+        { id: pattern },
+      ),
+  );
+
+const reports = Router.make({ timeout: 1_000 }).add(
+  slowRoute("/reports/slow", 200),
+);
+
+const router = Router.make({ timeout: 20 })
+  .add(slowRoute("/fast", 0))
+  .add(slowRoute("/slow", 200))
+  .add(
+    slowRoute("/busy", 200, {
+      duration: "20 millis",
+      status: 503,
+      retryAfter: "1500 millis",
+    }),
+  )
+  .add(reports);
+
+const handler = Handler.toFetch(router);
+
+const client = Client.make(router, {
+  baseUrl: "http://localhost",
+  fetch: (url, init) => handler(new Request(url, init)),
+});
+
+const request = (path: string) =>
+  Effect.promise(() => handler(new Request(`http://localhost${path}`)));
+
+describe.concurrent("Timeout", () => {
+  it.live("interrupts handlers with a 504 TimeoutError", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/slow");
+      expect(response.status).toBe(504);
+      expect(response.headers.get("retry-after")).toBeNull();
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        error: {
+          _tag: "TimeoutError",
+          message: "Request timed out after 20ms",
+        },
+      });
+
+      yield* Effect.sleep(250);
+      expect(finished).not.toContain("/slow");
+    }),
+  );
+
+  it.effect("responds with the configured status and Retry-After", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/busy");
+      expect(response.status).toBe(503);
+      expect(response.headers.get("retry-after")).toBe("2");
+    }),
+  );
+
+  it.effect("responds with any configured error status", () =>
+    Effect.gen(function* () {
+      const fetch = Handler.toFetch(
+        Router.make().add(
+          slowRoute("/queued", 200, { duration: "20 millis", status: 408 }),
+        ),
+      );
+      const response = yield* Effect.promise(() =>
+        fetch(new Request("http://localhost/queued")),
+      );
+      expect(response.status).toBe(408);
+      expect(yield* Effect.promise(() => response.json())).toEqual({
+        error: {
+          _tag: "TimeoutError",
+          message: "Request timed out after 20ms",
+        },
+      });
+    }),
+  );
+
+  it.live("times the route handler only, not the gate's after hook", () =>
+    Effect.gen(function* () {
+      const AuditGate = Gate.make(
+        {},
+        () => Effect.void,
+        () => Effect.sleep(100),
+      );
+      const fetch = Handler.toFetch(
+        Router.gate(
+          AuditGate,
+          Router.make({ timeout: 20 }).add(slowRoute("/audited", 0)),
+        ),
+      );
+      const response = yield* Effect.promise(() =>
+        fetch(new Request("http://localhost/audited")),
+      );
+      expect(response.status).toBe(200);
+    }),
+  );
+
+  it.effect("leaves handlers finishing in time alone", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/fast");
+      expect(response.status).toBe(200);
+    }),
+  );
+
+  it.effect("keeps the default of added routers", () =>
+    Effect.gen(function* () {
+      const response = yield* request("/reports/slow");
+      expect(response.status).toBe(200);
+      expect(reports.timeout).toBe(1_000);
+      expect(
+        router.routes.map((route) => [route.pattern, route.config.timeout]),
+      ).toEqual([
+        ["/fast", 20],
+        ["/slow", 20],
+        ["/busy", expect.objectContaining({ status: 503 })],
+        ["/reports/slow", 1_000],
+      ]);
+    }),
+  );
+
+  it.effect("fails clients with TimeoutError instances", () =>
+    Effect.gen(function* () {
+      const slow = yield* Effect.flip(client.slow.get());
+      expect(slow).toBeInstanceOf(Route.TimeoutError);
+
+      const busy = yield* Effect.flip(client.busy.get());
+      expect(busy).toBeInstanceOf(Route.TimeoutError);
+      expect(busy._tag).toBe("TimeoutError");
+    }),
+  );
+
+  it("types TimeoutError only for routes with a timeout", () => {
+    type Errors<F> = F extends () => Effect.Effect<unknown, infer E>
+      ? Extract<E, Route.TimeoutError>
+      : never;
+    const error = new Route.TimeoutError({ message: "Timed out" });
+
+    const gated = Router.gate(
+      Gate.make({}, () => Effect.succeed({})),
+      Router.make({ timeout: 20 }).add(slowRoute("/gated", 0)),
+    );
+    const untimed = Router.make().add(
+      Route.get("/untimed", { success: Report }, () =>
+        Effect.succeed({ id: "untimed" }),
+      ),
+    );
+    const typed = Client.make(Router.make().add(gated).add(untimed), {
+      baseUrl: "http://localhost",
+    });
+
+    const timed: [
+      Errors<typeof client.slow.get>,
+      Errors<typeof client.busy.get>,
+      Errors<typeof typed.gated.get>,
+    ] = [error, error, error];
+    // @ts-expect-error - routes without a timeout never time out
+    const never: Errors<typeof typed.untimed.get> = error;
+    expect([...timed, never]).toHaveLength(4);
+  });
+
+  it("documents timeout responses", () => {
+    const document = OpenApi.fromRouter(router, {
+      title: "Reports",
+      version: "1.0.0",
+    });
+    expect(Object.keys(document.paths["/slow"]!.get!.responses)).toEqual([
+      "200",
+      "504",
+    ]);
+    expect(Object.keys(document.paths["/busy"]!.get!.responses)).toEqual([
+      "200",
+      "503",
+    ]);
+  });
+});
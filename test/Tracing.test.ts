@@ -0,0 +1,243 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as Tracer from "effect/Tracer";
+import * as Client from "../src/Client.js";
+import * as Gate from "../src/Gate.js";
+import * as Handler from "../src/Handler.js";
+import * as Route from "../src/Route.js";
+import * as Router from "../src/Router.js";
+
+class UnauthorizedError extends Route.Error(
+  "UnauthorizedError",
+  401,
+)({
+  message: Schema.String,
+}) {}
+
+const AuthGate = Gate.make(
+  {
+    errors: [UnauthorizedError],
+    headers: Schema.Struct({
+      authorization: Schema.optionalKey(Schema.String),
+    }),
+  },
+  ({ headers }) =>
+    headers.authorization === "Bearer secret"
+      ? Effect.void
+      : Effect.fail(new UnauthorizedError({ message: "Missing token" })),
+);
+
+const User = Schema.Struct({ id: Schema.Number, name: Schema.String });
+
+const router = Router.make()
+  .add(
+    Route.get(
+      "/users/:id",
+      { path: Schema.Struct({ id: Schema.FiniteFromString }), success: User },
+      ({ path }) => Effect.succeed({ id: path.id, name: "Ada" }),
+    ),
+  )
+  .add(
+    AuthGate.add(
+      Route.post(
+        "/users",
+        { body: Schema.Struct({ name: Schema.String }), success: User },
+        ({ body }) => Effect.succeed({ id: 1, name: body.name }),
+      ),
+    ),
+  );
+
+/**
+ * A tracer keeping the spans it creates.
+ */
+const recordingTracer = () => {
+  const spans: Array<Tracer.NativeSpan> = [];
+  const tracer = Tracer.make({
+    span: (options) => {
+      const span = new Tracer.NativeSpan(options);
+      spans.push(span);
+      return span;
+    },
+  });
+  return { spans, tracer };
+};
+
+const handle = (tracer: Tracer.Tracer, request: Request) =>
+  Handler.toFetchHandler(router)(request).pipe(
+    Effect.provideService(Tracer.Tracer, tracer),
+  );
+
+const request = (path: string, init?: RequestInit) =>
+  new Request(`http://localhost${path}`, init);
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+const spanId = "00f067aa0ba902b7";
+
+describe.concurrent("Tracing", () => {
+  it.effect("wraps requests in a span named after the route", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      yield* handle(tracer, request("/users/42"));
+
+      const server = spans.find((span) => span.kind === "server")!;
+      expect(server.name).toBe("GET /users/:id");
+      expect(Object.fromEntries(server.attributes)).toEqual({
+        "http.request.method": "GET",
+        "http.route": "/users/:id",
+        "url.path": "/users/42",
+        "url.scheme": "http",
+        "server.address": "localhost",
+        "http.response.status_code": 200,
+      });
+      expect(
+        spans.filter((span) => span.parent === server).map((span) => span.name),
+      ).toEqual(["funcho.validate", "funcho.encode_response"]);
+    }),
+  );
+
+  it.effect("adds child spans for body parsing and gates", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      const response = yield* handle(
+        tracer,
+        request("/users", {
+          method: "POST",
+          headers: {
+            authorization: "Bearer secret",
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({ name: "Grace" }),
+        }),
+      );
+      expect(response.status).toBe(200);
+      expect(spans.map((span) => span.name)).toEqual(
+        expect.arrayContaining([
+          "POST /users",
+          "funcho.gate",
+          "funcho.parse_body",
+          "funcho.validate",
+          "funcho.encode_response",
+        ]),
+      );
+    }),
+  );
+
+  it.effect("records the status and tag of errors", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      yield* handle(
+        tracer,
+        request("/users", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ name: "Ada" }),
+        }),
+      );
+      yield* handle(tracer, request("/users/abc"));
+      yield* handle(tracer, request("/missing"));
+
+      const servers = spans.filter((span) => span.kind === "server");
+      expect(
+        servers.map((span) => [
+          span.name,
+          span.attributes.get("http.response.status_code"),
+          span.attributes.get("error.type"),
+        ]),
+      ).toEqual([
+        ["POST /users", 401, "UnauthorizedError"],
+        ["GET /users/:id", 400, "RequestValidationError"],
+        ["GET", 404, undefined],
+      ]);
+    }),
+  );
+
+  it.effect("records HEAD requests answered by GET routes as HEAD", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      const response = yield* handle(
+        tracer,
+        request("/users/42", { method: "HEAD" }),
+      );
+      expect(response.status).toBe(200);
+
+      const servers = spans.filter((span) => span.kind === "server");
+      expect(
+        servers.map((span) => [
+          span.name,
+          span.attributes.get("http.request.method"),
+        ]),
+      ).toEqual([["HEAD /users/:id", "HEAD"]]);
+    }),
+  );
+
+  it.effect("continues the trace of the traceparent header", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      yield* handle(
+        tracer,
+        request("/users/1", {
+          headers: { traceparent: `00-${traceId}-${spanId}-01` },
+        }),
+      );
+      yield* handle(
+        tracer,
+        request("/users/2", {
+          headers: { traceparent: `00-${"0".repeat(32)}-${spanId}-01` },
+        }),
+      );
+
+      const [continued, invalid] = spans.filter(
+        (span) => span.kind === "server",
+      );
+      expect(continued!.traceId).toBe(traceId);
+      expect(continued!.parent?.spanId).toBe(spanId);
+      expect(invalid!.traceId).not.toBe(traceId);
+      expect(invalid!.parent).toBeUndefined();
+    }),
+  );
+
+  it.effect("propagates the trace through clients", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = recordingTracer();
+      const sent: Array<Headers> = [];
+      const users = Client.make(router, {
+        baseUrl: "http://localhost",
+        fetch: (url, init) => {
+          const downstream = new Request(url, init);
+          sent.push(downstream.headers);
+          return Effect.runPromise(handle(tracer, downstream));
+        },
+      });
+      const gateway = Router.make().add(
+        Route.get("/profile", { success: User }, () =>
+          Effect.orDie(users.users.get({ path: { id: "7" } })),
+        ),
+      );
+
+      const response = yield* Handler.toFetchHandler(gateway)(
+        request("/profile", {
+          headers: {
+            traceparent: `00-${traceId}-${spanId}-01`,
+            tracestate: "vendor=value",
+          },
+        }),
+      ).pipe(Effect.provideService(Tracer.Tracer, tracer));
+      expect(response.status).toBe(200);
+
+      const clientSpan = spans.find((span) => span.kind === "client")!;
+      const [gatewaySpan, usersSpan] = spans.filter(
+        (span) => span.kind === "server",
+      );
+      expect(clientSpan.name).toBe("GET /users/:id");
+      expect(clientSpan.parent).toBe(gatewaySpan);
+      expect(clientSpan.attributes.get("http.response.status_code")).toBe(200);
+      expect(sent[0]!.get("traceparent")).toBe(
+        `00-${traceId}-${clientSpan.spanId}-01`,
+      );
+      expect(sent[0]!.get("tracestate")).toBe("vendor=value");
+      expect(usersSpan!.traceId).toBe(traceId);
+      expect(usersSpan!.parent?.spanId).toBe(clientSpan.spanId);
+    }),
+  );
+});